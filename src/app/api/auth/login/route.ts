@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/server/users";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { setSession } from "@/lib/server/session";
+
+export async function POST(req: Request) {
+  try {
+    const { id, password } = await readBody<{ id: string; password: string }>(req);
+    const user = await authenticate(id, password);
+    return setSession(NextResponse.json(user), user);
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { clearSession } from "@/lib/server/session";
+
+export async function POST() {
+  return clearSession(new NextResponse(null, { status: 204 }));
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { hasUsers } from "@/lib/server/users";
+import { errorResponse } from "@/lib/server/http";
+import { getSessionUser } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+// needsSetup: アカウントが 1 件もない（初期管理者の登録が必要）
+export async function GET() {
+  try {
+    return NextResponse.json({ user: await getSessionUser(), needsSetup: !(await hasUsers()) });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { setupFirstAdmin, type UserInput } from "@/lib/server/users";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { setSession } from "@/lib/server/session";
+
+export async function POST(req: Request) {
+  try {
+    const user = await setupFirstAdmin(await readBody<UserInput>(req));
+    return setSession(NextResponse.json(user, { status: 201 }), user);
+  } catch (e) { return errorResponse(e); }
+}
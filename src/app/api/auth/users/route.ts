@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { listDirectory } from "@/lib/server/users";
+import { errorResponse } from "@/lib/server/http";
+
+export const dynamic = "force-dynamic";
+
+// ログイン画面のユーザー選択肢（有効なユーザーの表示名のみ）
+export async function GET() {
+  try { return NextResponse.json(await listDirectory()); } catch (e) { return errorResponse(e); }
+}
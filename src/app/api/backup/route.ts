@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { createBackup, restoreBackup } from "@/lib/server/backup";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await createBackup());
+  } catch (e) { return errorResponse(e); }
+}
+
+// 復元：含まれている項目だけを置き換える（旧形式は自動で変換）
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await restoreBackup(await readBody<unknown>(req)));
+  } catch (e) { return errorResponse(e); }
+}
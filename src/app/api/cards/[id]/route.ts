@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import type { CardRow } from "@/lib/quiz";
+import { deleteCard, updateCard } from "@/lib/server/cards";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    const patch = await readBody<CardRow>(req);
+    return NextResponse.json(await updateCard(id, patch));
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    await deleteCard(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import type { CardBulk } from "@/lib/quiz";
+import { bulkCards } from "@/lib/server/cards";
+import { ApiError, errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+const isList = (v: unknown) => v == null || Array.isArray(v);
+
+// 複数カードの更新・削除・追加をまとめて適用する（全件成功か、何も変えないか）
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    const body = await readBody<CardBulk>(req);
+    if (!body || typeof body !== "object" || !isList(body.update) || !isList(body.remove) || !isList(body.create)) {
+      throw new ApiError(400, "update / remove / create は配列で渡してください");
+    }
+    if (body.update?.some(u => !u || typeof u.id !== "string" || !u.patch || typeof u.patch !== "object")) {
+      throw new ApiError(400, "update の各要素は { id, patch } で渡してください");
+    }
+    if (body.remove?.some(id => typeof id !== "string")) throw new ApiError(400, "remove はカード ID の配列で渡してください");
+    if (body.create?.some(row => !row || typeof row !== "object")) throw new ApiError(400, "create の各要素はオブジェクトで渡してください");
+    return NextResponse.json(await bulkCards(body));
+  } catch (e) { return errorResponse(e); }
+}
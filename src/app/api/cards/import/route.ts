@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import type { CardRow } from "@/lib/quiz";
+import { importCards, previewImport } from "@/lib/server/cards";
+import { ApiError, errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Body = CardRow[] | { rows: CardRow[]; preview?: boolean; removeMissing?: boolean };
+
+// 配列だけを渡された場合は従来どおりデッキを置き換える（ファイルに無いカードは削除）
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    const body = await readBody<Body>(req);
+    const { rows, preview = false, removeMissing = false } = Array.isArray(body) ? { rows: body, removeMissing: true } : body ?? {};
+    if (!Array.isArray(rows)) throw new ApiError(400, "配列JSONを渡してください");
+    if (preview) return NextResponse.json(await previewImport(rows));
+    return NextResponse.json(await importCards(rows, removeMissing === true));
+  } catch (e) { return errorResponse(e); }
+}
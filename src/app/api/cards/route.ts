@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import type { CardRow } from "@/lib/quiz";
+import { createCard, listCards } from "@/lib/server/cards";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireRole("admin", "player");
+    return NextResponse.json(await listCards());
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    const row = await readBody<CardRow>(req);
+    return NextResponse.json(await createCard(row), { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
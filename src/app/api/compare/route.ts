@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import type { TCompareResult } from "@/lib/types";
+import { appendCompareResults, clearCompareResults, queryCompareResults } from "@/lib/server/compare";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  try {
+    const me = await requireRole("admin", "player");
+    const sp = new URL(req.url).searchParams;
+    // プレイヤーは自分の履歴だけ
+    const user = me.role === "admin" ? sp.get("user") ?? undefined : me.id;
+    return NextResponse.json(await queryCompareResults({ user, limit: Number(sp.get("limit")) || undefined }));
+  } catch (e) { return errorResponse(e); }
+}
+
+// 1 件でも配列でも追記できる（user はログイン中のユーザーで上書き）
+export async function POST(req: Request) {
+  try {
+    const me = await requireRole("admin", "player");
+    const body = await readBody<Partial<TCompareResult> | Partial<TCompareResult>[]>(req);
+    const saved = await appendCompareResults((Array.isArray(body) ? body : [body]).map(r => ({ ...r, user: me.id })));
+    return NextResponse.json(saved, { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function DELETE() {
+  try {
+    await requireRole("admin");
+    await clearCompareResults();
+    return new NextResponse(null, { status: 204 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { submitAnswer } from "@/lib/server/exams";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function POST(req: Request, { params }: Ctx) {
+  try {
+    const me = await requireRole("admin", "player");
+    const { id } = await params;
+    const { index, answeredName, answeredPrice } = await readBody<{ index: number; answeredName: string; answeredPrice: string }>(req);
+    return NextResponse.json(await submitAnswer(id, me, Number(index), String(answeredName ?? ""), String(answeredPrice ?? "")));
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getAttemptState, startAttempt } from "@/lib/server/exams";
+import { errorResponse } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// 自分の受験状況（未受験なら null）
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const me = await requireRole("admin", "player");
+    const { id } = await params;
+    return NextResponse.json(await getAttemptState(id, me));
+  } catch (e) { return errorResponse(e); }
+}
+
+// 受験開始（途中のものがあれば再開）
+export async function POST(_req: Request, { params }: Ctx) {
+  try {
+    const me = await requireRole("admin", "player");
+    const { id } = await params;
+    return NextResponse.json(await startAttempt(id, me));
+  } catch (e) { return errorResponse(e); }
+}
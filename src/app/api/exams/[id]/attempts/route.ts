@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { listAttempts } from "@/lib/server/exams";
+import { errorResponse } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// 全受験者のレポート（管理者）
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    return NextResponse.json(await listAttempts(id));
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { deleteExam, updateExam, type ExamInput } from "@/lib/server/exams";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    return NextResponse.json(await updateExam(id, await readBody<ExamInput>(req)));
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    await deleteExam(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { createExam, listExams, type ExamInput } from "@/lib/server/exams";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+// プレイヤーには公開中の試験と自分の受験状況だけ
+export async function GET() {
+  try {
+    const me = await requireRole("admin", "player");
+    return NextResponse.json(await listExams(me));
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await createExam(await readBody<ExamInput>(req)), { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { deletePreset, updatePreset, type PresetInput } from "@/lib/server/presets";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    return NextResponse.json(await updatePreset(id, await readBody<PresetInput>(req)));
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    await deletePreset(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { createPreset, listPresets, type PresetInput } from "@/lib/server/presets";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireRole("admin", "player");
+    return NextResponse.json(await listPresets());
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await createPreset(await readBody<PresetInput>(req)), { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import type { TQuizAnswer } from "@/lib/types";
+import { clearResults, gradeAnswers, queryResults } from "@/lib/server/results";
+import { clearSchedules, recordReviews } from "@/lib/server/schedule";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+// 日付は ISO 文字列でも epoch ミリ秒でも受け付ける
+const toTime = (v: string | null) => {
+  if (!v) return undefined;
+  const t = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+  return Number.isFinite(t) ? t : undefined;
+};
+
+export async function GET(req: Request) {
+  try {
+    const me = await requireRole("admin", "player");
+    const sp = new URL(req.url).searchParams;
+    // プレイヤーは自分の履歴だけ
+    const user = me.role === "admin" ? sp.get("user") ?? undefined : me.id;
+    return NextResponse.json(await queryResults({
+      user,
+      cardId: sp.get("cardId") ?? undefined,
+      from: toTime(sp.get("from")),
+      to: toTime(sp.get("to")),
+      limit: Number(sp.get("limit")) || undefined,
+    }));
+  } catch (e) { return errorResponse(e); }
+}
+
+// 1 件でも配列でも追記できる。回答だけを受け取ってサーバーで採点し、ログイン中のユーザーの履歴にする
+// （試験の回答はサーバー側でのみ記録）
+export async function POST(req: Request) {
+  try {
+    const me = await requireRole("admin", "player");
+    const body = await readBody<Partial<TQuizAnswer> | Partial<TQuizAnswer>[]>(req);
+    const saved = await gradeAnswers(me.id, Array.isArray(body) ? body : [body]);
+    await recordReviews(saved);
+    return NextResponse.json(saved, { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function DELETE() {
+  try {
+    await requireRole("admin");
+    await clearResults();
+    await clearSchedules();
+    return new NextResponse(null, { status: 204 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getSchedule } from "@/lib/server/schedule";
+import { errorResponse } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+// 自分のスケジュール（管理者は ?user= で他人のも見られる）
+export async function GET(req: Request) {
+  try {
+    const me = await requireRole("admin", "player");
+    const user = me.role === "admin" ? new URL(req.url).searchParams.get("user") ?? me.id : me.id;
+    return NextResponse.json(await getSchedule(user));
+  } catch (e) { return errorResponse(e); }
+}
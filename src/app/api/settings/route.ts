@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import type { TSettings } from "@/lib/types";
+import { getSettings, updateSettings } from "@/lib/server/settings";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try { return NextResponse.json(await getSettings()); } catch (e) { return errorResponse(e); }
+}
+
+export async function PUT(req: Request) {
+  try {
+    await requireRole("admin");
+    const patch = await readBody<Partial<TSettings>>(req);
+    return NextResponse.json(await updateSettings(patch));
+  } catch (e) { return errorResponse(e); }
+}
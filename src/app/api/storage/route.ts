@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { listQuarantine } from "@/lib/server/store";
+import { errorResponse } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+// 読み込み時に退避された（壊れていた）データの一覧
+export async function GET() {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await listQuarantine());
+  } catch (e) { return errorResponse(e); }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { updateUser, type UserInput } from "@/lib/server/users";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    await requireRole("admin");
+    const { id } = await params;
+    return NextResponse.json(await updateUser(id, await readBody<UserInput>(req)));
+  } catch (e) { return errorResponse(e); }
+}
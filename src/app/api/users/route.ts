@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { createUser, listUsers, type UserInput } from "@/lib/server/users";
+import { errorResponse, readBody } from "@/lib/server/http";
+import { requireRole } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await listUsers());
+  } catch (e) { return errorResponse(e); }
+}
+
+export async function POST(req: Request) {
+  try {
+    await requireRole("admin");
+    return NextResponse.json(await createUser(await readBody<UserInput>(req)), { status: 201 });
+  } catch (e) { return errorResponse(e); }
+}
@@ -1,7 +1,6 @@
-// @ts-nocheck
 "use client";
 
-import React, { useMemo, useRef, useState, useEffect } from "react";
+import React, { useCallback, useMemo, useRef, useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,243 +8,392 @@ import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Upload, Check, RotateCcw, Download, Settings, Image as ImageIcon, Trophy, User2 } from "lucide-react";
+import { Upload, Check, RotateCcw, Download, Settings, Image as ImageIcon, Trophy, User2, LogOut } from "lucide-react";
 import * as Papa from "papaparse";
+import type { QuizAsk, QuizMode, TCard, TPreset, TResult, TSettings, TUser } from "@/lib/types";
+import {
+  CARD_CSV_FIELDS, QUIZ_ASKS, QUIZ_MODES, askedOf, asksName, asksPrice, deckNames, decksOf, emptyCardFilter, gradeLabel, inDecks, lastAnswers, matchesFilter, matchesHistory,
+  metaLine, modeOf, parsePrice, priceHistory, toCsvRow, type CardRow,
+} from "@/lib/quiz";
+import { gradeAnswer, gradeChoice } from "@/lib/scoring";
+import { bandLabel, bandMid, makeChoices, type Choices } from "@/lib/choices";
+import { rejectedRows, type ImportPlan } from "@/lib/importPlan";
+import { applyReviews, pickNext, queueCounts, type ScheduleMap } from "@/lib/srs";
+import { api } from "@/lib/api";
+import { downloadText } from "@/lib/download";
+import { LoginPanel } from "@/components/LoginPanel";
+import { UserAdmin } from "@/components/UserAdmin";
+import { ExamAdmin } from "@/components/ExamAdmin";
+import { ExamPlayer } from "@/components/ExamPlayer";
+import { CompareQuiz } from "@/components/CompareQuiz";
+import { AnalyticsDashboard } from "@/components/AnalyticsDashboard";
+import { ProgressPanel } from "@/components/ProgressPanel";
+import { PriceTrend } from "@/components/PriceTrend";
+import { ImportPreview } from "@/components/ImportPreview";
+import { CardEditor } from "@/components/CardEditor";
+import { BackupPanel } from "@/components/BackupPanel";
+import { DeckPicker } from "@/components/DeckPicker";
+import { CardFilterEditor } from "@/components/CardFilterEditor";
+import { PresetAdmin } from "@/components/PresetAdmin";
+import { PresetPicker } from "@/components/PresetPicker";
+import { ChoicePanel, type Picked } from "@/components/ChoicePanel";
+import { NameAutocomplete } from "@/components/NameAutocomplete";
+import { ToleranceRulesEditor } from "@/components/ToleranceRulesEditor";
+
+// 許容範囲: ¥52,000–¥64,000
+const fmtRange = (r: { min: number; max: number }) => `¥${r.min.toLocaleString()}–¥${r.max.toLocaleString()}`;
+
+// 符号付きの誤差表示（+12.5% / -3%）
+const fmtPct = (v?: number) => (v == null ? "-" : `${v > 0 ? "+" : ""}${v}%`);
+
+// 回答した価格（選択式は選んだ帯）
+const answeredPriceText = (r: TResult) => (r.answeredBand ? bandLabel(r.answeredBand) : `${r.answeredPrice.toLocaleString()} 円`);
+
+// 聞いた部分だけの回答
+const answerText = (r: TResult) => [
+  asksName(askedOf(r)) ? r.answeredName : null,
+  asksPrice(askedOf(r)) ? answeredPriceText(r) : null,
+].filter(Boolean).join(" / ");
+
+// 名・価の合否（聞いていない側は「-」）
+const partsText = (r: TResult) =>
+  `名:${asksName(askedOf(r)) ? (r.nameOk ? "○" : "×") : "-"} 価:${asksPrice(askedOf(r)) ? (r.priceOk ? "○" : "×") : "-"}`;
+
+// 聞いた回答のうち合っていた割合
+function partRate(rs: TResult[], part: "name" | "price") {
+  const asked = rs.filter(r => (part === "name" ? asksName : asksPrice)(askedOf(r)));
+  const ok = asked.filter(r => (part === "name" ? r.nameOk : r.priceOk)).length;
+  return asked.length ? Math.round((ok / asked.length) * 100) : null;
+}
 
-/* ========= 型（UIのCardと衝突しないよう T 接頭辞） ========= */
-type TCard = {
-  id: string;
-  img: string;
-  name: string;
-  psa: number;
-  price: number;
-  active?: boolean;
-  aliases?: string[];
-};
-
-type TResult = {
-  ts: number;
-  user: string;
-  cardId: string;
-  answeredName: string;
-  answeredPrice: number;
-  correct: boolean;
-  nameOk: boolean;
-  priceOk: boolean;
-  correctName: string;
-  correctPrice: number;
-};
-
-type TStore = {
-  user: string;
-  cards: TCard[];
-  missMap: Record<string, number>;
-  results: TResult[];
-  tolPct: number;
-  strictName: boolean;
-  psaFilter: "all" | "10" | "9以下";
-};
-
-/* ================= ユーティリティ ================= */
-const toHalf = (s: string = "") =>
-  s.replace(/[０-９]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFEE0))
-   .replace(/[，]/g, ",")
-   .replace(/[＋]/g, "+");
-
-const norm = (s: string = "") => toHalf(s).trim().toLowerCase().replace(/[\s　]/g, "");
-
-const parsePrice = (v: unknown) => {
-  if (v == null) return NaN;
-  const n = Number(toHalf(String(v)).replace(/[,円]/g, ""));
-  return Number.isFinite(n) ? n : NaN;
-};
-
-const uid = () => Math.random().toString(36).slice(2);
-
-/* ================= ストレージ ================= */
-const LS_KEY = "card-quiz-v1";
-const loadStore = (): Partial<TStore> => { try { return JSON.parse(localStorage.getItem(LS_KEY) || "{}"); } catch { return {}; } };
-const saveStore = (data: Partial<TStore>) => localStorage.setItem(LS_KEY, JSON.stringify(data));
-
-/* ================= 初期デモカード ================= */
-const demoCards: TCard[] = [
-  { id: uid(), img: "https://images.pokemontcg.io/swsh45/sv107_hires.png", name: "リザードン VMAX", psa: 10, price: 58000, active: true, aliases: ["リザバナ","charizard"] },
-  { id: uid(), img: "https://images.pokemontcg.io/base1/4_hires.png",    name: "ピカチュウ プロモ", psa: 10, price: 32000, active: true, aliases: ["pikachu","プロモ"] },
-  { id: uid(), img: "https://images.pokemontcg.io/base1/2_hires.png",    name: "フシギバナ",       psa: 10, price: 42000, active: true, aliases: ["venusaur","バナ"] },
-];
-
-/* ========== 入力正規化 / 重み付きランダム ========== */
-const toCard = (row: any): TCard => ({
-  id: String(row.id ?? uid()),
-  img: String(row.IMG_URL ?? row.img ?? row.image ?? ""),
-  name: String(row.NAME ?? row.name ?? ""),
-  psa: Number(row.PSA ?? row.psa ?? 10),
-  price: Number(parsePrice(row.PRICE ?? row.price ?? 0)),
-  active: String(row.ACTIVE ?? row.active ?? "true").toLowerCase() !== "false",
-  aliases: String(row.ALIASES ?? row.aliases ?? "")
-    .split(/[,、\s]+/)
-    .map((s: string) => s.trim())
-    .filter(Boolean),
-});
-
-function weightedPick<T>(items: T[], weights: number[]): T {
-  const total = weights.reduce((a, b) => a + b, 0);
-  let r = Math.random() * total;
-  for (let i = 0; i < items.length; i++) { r -= weights[i]; if (r <= 0) return items[i]; }
-  return items[items.length - 1];
+const modeLabel = (m: QuizMode) => QUIZ_MODES.find(x => x.value === m)?.label ?? m;
+
+// 回答数・正答率・平均得点（採点エンジン導入前の回答は平均得点に含めない）
+function breakdown(rs: TResult[]) {
+  const ok = rs.filter(r => r.correct).length;
+  const sc = rs.filter(r => r.score != null);
+  return {
+    total: rs.length,
+    rate: rs.length ? Math.round((ok / rs.length) * 100) : 0,
+    avgScore: sc.length ? Math.round(sc.reduce((a, r) => a + (r.score ?? 0), 0) / sc.length) : null,
+  };
+}
+
+// 成績の内訳（デッキ別・出題形式別）
+function BreakdownTable({ heading, rows }: { heading: string; rows: ({ label: string } & ReturnType<typeof breakdown>)[] }) {
+  return (
+    <div>
+      <div className="text-sm text-gray-500 mb-2">{heading}別</div>
+      <table className="w-full text-sm bg-white rounded-lg border">
+        <thead><tr className="text-gray-500"><th className="p-1.5 text-left">{heading}</th><th className="p-1.5 text-right">回答</th><th className="p-1.5 text-right">正答率</th><th className="p-1.5 text-right">平均得点</th></tr></thead>
+        <tbody>
+          {rows.map(d => (
+            <tr key={d.label} className="border-t">
+              <td className="p-1.5">{d.label}</td>
+              <td className="p-1.5 text-right">{d.total}</td>
+              <td className="p-1.5 text-right">{d.rate}%</td>
+              <td className="p-1.5 text-right">{d.avgScore ?? "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 }
 
 /* ================= 本体 ================= */
 export default function App() {
-  // --- 管理者パス制御 ---
-  const ADMIN_PASS =
-    (typeof window !== "undefined" && (window as any).__ADMIN__) ||
-    process.env.NEXT_PUBLIC_ADMIN_PASS || "km2025";
-
-  const [isAdmin, setIsAdmin] = useState<boolean>(() => {
-    try { return localStorage.getItem("quiz_admin") === "1"; } catch { return false; }
-  });
+  // --- セッション（ロールはサーバー側で判定） ---
+  const [me, setMe] = useState<TUser | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [authChecked, setAuthChecked] = useState(false);
+  const isAdmin = me?.role === "admin";
   useEffect(() => {
-    try { localStorage.setItem("quiz_admin", isAdmin ? "1" : "0"); } catch {}
-  }, [isAdmin]);
-  function handleAdminAccess() {
-    if (isAdmin) return;
-    const input = prompt("管理者パスワードを入力してください");
-    if (input === ADMIN_PASS) { setIsAdmin(true); toast.success("管理者モードを有効化しました"); }
-    else { toast.error("パスワードが違います"); }
+    api.me()
+      .then(s => { setMe(s.user); setNeedsSetup(s.needsSetup); })
+      .catch((e: Error) => toast.error("ログイン状態の取得失敗: " + e.message))
+      .finally(() => setAuthChecked(true));
+  }, []);
+  async function handleLogout() {
+    try { await api.logout(); } catch {}
+    setMe(null); setCards([]); setResults([]); setCurrent(null); setPracticeIds(null);
+    toast("ログアウトしました");
   }
-  function handleAdminLogout() { setIsAdmin(false); toast("管理者モードを解除しました"); }
 
   // --- 状態 ---
-  const [user, setUser] = useState(() => loadStore().user || "社員A");
-  const [cards, setCards] = useState<TCard[]>(() => {
-    const s = loadStore();
-    return Array.isArray(s.cards) ? (s.cards as any[]).map(toCard) : demoCards;
-  });
-  const [missMap, setMissMap] = useState<Record<string, number>>(() => loadStore().missMap || {});
-  const [results, setResults] = useState<TResult[]>(() => (loadStore().results as any) || []);
-  const [tolPct, setTolPct] = useState(() => loadStore().tolPct ?? 10);
-  const [strictName, setStrictName] = useState(() => loadStore().strictName ?? false);
-  const [psaFilter, setPsaFilter] = useState<"all" | "10" | "9以下">(() => (loadStore().psaFilter as any) || "all");
+  const [cards, setCards] = useState<TCard[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleMap>({});
+  const [results, setResults] = useState<TResult[]>([]);
+  const [settings, setSettings] = useState<TSettings>({ tolPct: 10, tolRules: [], strictName: false, autocomplete: true, cardFilter: emptyCardFilter });
+  const { tolPct, tolRules, strictName, autocomplete, cardFilter } = settings;
+  const [tab, setTab] = useState("play");
 
   const [current, setCurrent] = useState<TCard | null>(null);
   const [ansName, setAnsName] = useState("");
   const [ansPrice, setAnsPrice] = useState("");
   const [showAnswer, setShowAnswer] = useState(false);
+  const [lastResult, setLastResult] = useState<TResult | null>(null);
+  const [mode, setMode] = useState<QuizMode>("input");
+  const [asked, setAsked] = useState<QuizAsk>("both");
+  const [choices, setChoices] = useState<Choices | null>(null);
+  const [picked, setPicked] = useState<Picked>({ name: null, band: null });
+  const [deckFilter, setDeckFilter] = useState<string[]>([]);
+  const [presets, setPresets] = useState<TPreset[]>([]);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [practiceIds, setPracticeIds] = useState<string[] | null>(null); // 苦手なカードの練習中
+  const [pendingImport, setPendingImport] = useState<{ rows: CardRow[]; plan: ImportPlan } | null>(null);
   const nameRef = useRef<HTMLInputElement | null>(null);
+  const priceRef = useRef<HTMLInputElement | null>(null);
 
-  // 保存（psa/price を number で固定化）
+  // 共有デッキと出題ルールをサーバーから取得
   useEffect(() => {
-    const fixed = cards.map(c => ({ ...c, psa: Number(c.psa ?? 10), price: Number(c.price ?? 0) })) as TCard[];
-    saveStore({ user, cards: fixed, missMap, results, tolPct, strictName, psaFilter });
-  }, [user, cards, missMap, results, tolPct, strictName, psaFilter]);
+    if (!me) return;
+    api.listCards()
+      .then(setCards)
+      .catch((e: Error) => toast.error("カード取得失敗: " + e.message));
+    api.getSettings()
+      .then(setSettings)
+      .catch((e: Error) => toast.error("設定取得失敗: " + e.message));
+    api.listPresets()
+      .then(setPresets)
+      .catch((e: Error) => toast.error("プリセット取得失敗: " + e.message));
+  }, [me]);
+
+  // 設定変更（管理者のみ。persist=false はスライダー操作中の表示更新だけ）
+  function changeSettings(patch: Partial<TSettings>, persist = true) {
+    setSettings(prev => ({ ...prev, ...patch }));
+    if (!persist) return;
+    api.updateSettings(patch)
+      .then(setSettings)
+      .catch((e: Error) => toast.error("設定の保存に失敗しました: " + e.message));
+  }
 
-  // 出題候補
-  const filtered = useMemo(() => {
-    return cards
-      .filter(c => c.active !== false)
-      .filter(c => (psaFilter === "10" ? Number(c.psa) === 10 : psaFilter === "9以下" ? Number(c.psa) !== 10 : true));
-  }, [cards, psaFilter]);
-
-  // 次の問題
-  function nextQuestion() {
-    if (!filtered.length) { toast("カードがありません。データをインポートしてください。"); return; }
-    const weights = filtered.map(c => 1 + (missMap[c.id] || 0));
-    setCurrent(weightedPick(filtered, weights));
-    setAnsName(""); setAnsPrice(""); setShowAnswer(false);
-    setTimeout(() => nameRef.current?.focus?.(), 60);
+  // 回答履歴と復習スケジュールもサーバーから（ログイン中のユーザー分）
+  function reloadMine() {
+    if (!me) return;
+    api.listResults({ user: me.id })
+      .then(setResults)
+      .catch((e: Error) => toast.error("履歴取得失敗: " + e.message));
+    api.getSchedule()
+      .then(setSchedule)
+      .catch((e: Error) => toast.error("スケジュール取得失敗: " + e.message));
   }
-  useEffect(() => { if (!current && filtered.length) nextQuestion(); }, [filtered]);
+  useEffect(reloadMine, [me]);
+
+  // 出題候補（全体ルール → プリセット → デッキの順に絞る）
+  const activeCards = useMemo(() => cards.filter(c => c.active !== false), [cards]);
+  const decks = useMemo(() => deckNames(activeCards), [activeCards]);
+  // 入力候補（出題範囲に関係なく、有効なカードの名前と別名すべて）
+  const nameOptions = useMemo(() => [...new Set(activeCards.flatMap(c => [c.name, ...(c.aliases ?? [])]))], [activeCards]);
+  const preset = presets.find(p => p.id === presetId) ?? null;
+  const mine = useMemo(() => results.filter(r => r.user === me?.id), [results, me]);
+  const lastAnswer = useMemo(() => lastAnswers(mine), [mine]);
+  const playable = useMemo(() => activeCards.filter(c => matchesFilter(c, cardFilter)), [activeCards, cardFilter]);
+  const filtered = useMemo(() => {
+    // 苦手なカードの練習中はプリセットとデッキを使わず、そのカードだけ出す
+    if (practiceIds) return playable.filter(c => practiceIds.includes(c.id));
+    return playable
+      .filter(c => !preset || (matchesFilter(c, preset.filter) && matchesHistory(c, preset.history, lastAnswer)))
+      .filter(c => inDecks(c, deckFilter));
+  }, [playable, practiceIds, preset, lastAnswer, deckFilter]);
+
+  // 今日の出題キュー（未学習 / 学習中 / 復習期限）
+  const queue = useMemo(() => queueCounts(filtered, schedule), [filtered, schedule]);
+
+  // 次の問題（期限の来たカードを優先）
+  const nextQuestion = useCallback(() => {
+    if (!filtered.length) {
+      toast(activeCards.length ? "条件に合うカードがありません。絞り込みを変えてください。" : "カードがありません。データをインポートしてください。");
+      return;
+    }
+    const card = pickNext(filtered, schedule, current?.id);
+    setCurrent(card);
+    // 選択式に切り替えてもすぐ出せるよう、選択肢は形式に関係なく作っておく
+    setChoices(card ? makeChoices(card, filtered, activeCards) : null);
+    setAnsName(""); setAnsPrice(""); setPicked({ name: null, band: null }); setShowAnswer(false);
+    setTimeout(() => (nameRef.current ?? priceRef.current)?.focus?.(), 60);
+  }, [filtered, schedule, current, activeCards]);
+  // 絞り込みを変えて今の問題が対象外になったら出し直す
+  // （答えた直後に「未回答」「前回まちがえた」から外れても、正解表示中は出し直さない）
+  useEffect(() => {
+    if (showAnswer) return;
+    if ((!current || !filtered.some(c => c.id === current.id)) && filtered.length) nextQuestion();
+  }, [filtered, current, showAnswer, nextQuestion]);
 
   // 採点
   function grade() {
-    if (!current) return;
-    const correctName = current.name;
-    const correctPrice = Number(current.price);
-    const p = parsePrice(ansPrice);
-    const nm = norm(ansName);
-    if (!nm || Number.isNaN(p)) { toast("名前と価格を入力してください"); return; }
-
-    const candidates = [correctName, ...(current.aliases || [])].map(norm);
-    const nameOk  = strictName ? candidates.includes(nm) : candidates.some(x => nm.includes(x) || x.includes(nm));
-    const priceOk = Math.abs(p - correctPrice) <= correctPrice * (tolPct / 100);
-    const ok = nameOk && priceOk;
-
-    setResults(prev => [{
-      ts: Date.now(), user, cardId: current.id,
-      answeredName: ansName, answeredPrice: p,
-      correct: ok, nameOk, priceOk, correctName, correctPrice
-    }, ...prev].slice(0, 2000));
-
-    setMissMap(prev => ({ ...prev, [current.id]: (prev[current.id] || 0) + (ok ? 0 : 1) }));
+    if (!current || showAnswer) return; // 答え合わせ済みの問題は採点し直さない
+    let answer: Pick<TResult, "answeredName" | "answeredPrice" | "answeredBand">;
+    let g: ReturnType<typeof gradeAnswer>;
+    if (mode === "choice") {
+      const band = picked.band == null ? null : choices?.bands[picked.band];
+      if ((asksName(asked) && picked.name == null) || (asksPrice(asked) && !band)) {
+        toast(asked === "both" ? "名前と価格帯を選んでください" : asked === "name" ? "名前を選んでください" : "価格帯を選んでください");
+        return;
+      }
+      answer = {
+        answeredName: asksName(asked) ? picked.name ?? "" : "",
+        answeredPrice: asksPrice(asked) && band ? bandMid(band) : 0,
+        answeredBand: asksPrice(asked) && band ? band : undefined,
+      };
+      g = gradeChoice(current, asksName(asked) ? picked.name : null, asksPrice(asked) ? band ?? null : null, asked);
+    } else {
+      g = gradeAnswer(current, ansName, ansPrice, { tolPct, tolRules, strictName }, asked);
+      if (!g) { toast(asked === "both" ? "名前と価格を入力してください" : asked === "name" ? "名前を入力してください" : "価格を入力してください"); return; }
+      answer = { answeredName: asksName(asked) ? ansName : "", answeredPrice: asksPrice(asked) ? parsePrice(ansPrice) : 0 };
+    }
+
+    const result: TResult = {
+      ts: Date.now(), user: me?.id ?? "", cardId: current.id,
+      ...answer,
+      correctName: current.name, correctPrice: Number(current.price),
+      ...g,
+      mode: mode === "input" ? undefined : mode,
+      asked: asked === "both" ? undefined : asked,
+    };
+    setResults(prev => [result, ...prev]);
+    setLastResult(result);
+    // 表示はすぐ手元の採点で出し、保存はサーバーの採点結果に置き換える
+    api.postAnswer({
+      cardId: current.id, answeredName: answer.answeredName,
+      answeredPrice: mode === "choice" ? "" : ansPrice, answeredBand: answer.answeredBand,
+      mode: result.mode, asked: result.asked,
+    })
+      .then(([saved]) => {
+        setResults(prev => prev.map(r => (r === result ? saved : r)));
+        setLastResult(prev => (prev === result ? saved : prev));
+      })
+      .catch((e: Error) => toast.error("履歴の保存に失敗しました: " + e.message));
+
+    setSchedule(prev => applyReviews(prev, [result]));
     setShowAnswer(true);
-    ok ? toast.success("正解！") : toast.error("不正解");
+    if (g.correct) toast.success(`正解！（${g.score} 点）`);
+    else toast.error(`不正解（${g.score} 点）`);
   }
 
   /* ===== インポート ===== */
+  // 検証・保存はサーバー側（toCard）で行う。まず差分をプレビューし、確認してから適用する
+  async function importRows(rows: CardRow[]) {
+    const plan = await api.previewImport(rows);
+    setPendingImport({ rows, plan });
+  }
+  async function applyImport(removeMissing: boolean) {
+    if (!pendingImport) return;
+    try {
+      const { cards: next, plan } = await api.importCards(pendingImport.rows, removeMissing);
+      setCards(next); setCurrent(null); setPendingImport(null);
+      const skipped = rejectedRows(plan.issues).size;
+      toast.success(`追加 ${plan.added.length} / 更新 ${plan.updated.length}${removeMissing ? ` / 削除 ${plan.removed.length}` : ""} 件${skipped ? `（エラー ${skipped} 行は取り込みませんでした）` : ""}`);
+    } catch (e) { toast.error("インポート失敗: " + (e as Error).message); }
+  }
   function importCSV(file: File) {
-    Papa.parse(file, {
+    Papa.parse<CardRow>(file, {
       header: true, skipEmptyLines: true,
-      complete: (res: Papa.ParseResult<any>) => {
-        try {
-          const mapped: TCard[] = (res.data || []).map(toCard).filter((x: TCard) => x.name && Number.isFinite(x.price));
-          if (!mapped.length) throw new Error("有効な行がありません");
-          setCards(mapped); setMissMap({}); setCurrent(null);
-          toast.success(`読み込み: ${mapped.length} 件`);
-        } catch (e: any) { toast.error("CSV読み込み失敗: " + e.message); }
+      complete: (res) => {
+        importRows(res.data || []).catch((e: Error) => toast.error("CSV読み込み失敗: " + e.message));
       },
-      error: (e: any) => toast.error("CSV解析エラー: " + e.message),
+      error: (e: Error) => toast.error("CSV解析エラー: " + e.message),
     });
   }
-  function importJSON(text: string) {
+  function importFile(file: File) {
+    if (!file.name.toLowerCase().endsWith(".json")) { importCSV(file); return; }
+    file.text().then(importJSON).catch((e: Error) => toast.error("ファイル読み込み失敗: " + e.message));
+  }
+  async function importJSON(text: string) {
     try {
       const arr = JSON.parse(text);
       if (!Array.isArray(arr)) throw new Error("配列JSONを渡してください");
-      const mapped: TCard[] = (arr as any[]).map(toCard).filter((x: TCard) => x.name && Number.isFinite(x.price));
-      if (!mapped.length) throw new Error("有効な行がありません");
-      setCards(mapped); setMissMap({}); setCurrent(null);
-      toast.success(`読み込み: ${mapped.length} 件`);
-    } catch (e: any) { toast.error("JSON読み込み失敗: " + e.message); }
+      await importRows(arr);
+    } catch (e) { toast.error("JSON読み込み失敗: " + (e as Error).message); }
   }
 
   /* ===== エクスポート ===== */
-  function exportResults() {
-    const csv = Papa.unparse(results.map(r=>({
-      ts: new Date(r.ts).toISOString(), user: r.user,
+  async function exportResults() {
+    let all: TResult[], users: TUser[];
+    try { [all, users] = await Promise.all([api.listResults(), api.listUsers()]); }
+    catch (e) { toast.error("履歴取得失敗: " + (e as Error).message); return; }
+    const nameOf = new Map(users.map(u => [u.id, u.displayName]));
+    const csv = Papa.unparse(all.map(r=>({
+      ts: new Date(r.ts).toISOString(), user: r.user, userName: nameOf.get(r.user) ?? r.user,
       cardId: r.cardId, answeredName: r.answeredName,
       answeredPrice: r.answeredPrice, correct: r.correct,
       nameOk: r.nameOk, priceOk: r.priceOk,
-      correctName: r.correctName, correctPrice: r.correctPrice
+      correctName: r.correctName, correctPrice: r.correctPrice,
+      score: r.score, namePoints: r.namePoints, pricePoints: r.pricePoints, priceErrorPct: r.priceErrorPct,
+      nameSimilarity: r.nameSimilarity, mode: modeOf(r), asked: askedOf(r), answeredBandMin: r.answeredBand?.min, answeredBandMax: r.answeredBand?.max,
     })));
-    const blob = new Blob([csv], {type:"text/csv;charset=utf-8;"});
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url; a.download = `quiz_results_${Date.now()}.csv`;
-    a.click(); URL.revokeObjectURL(url);
+    downloadText(csv, `quiz_results_${Date.now()}.csv`);
+  }
+
+  // インポートと同じ形式で書き出す（ID 付きなので読み戻すと同じカードに一致する）
+  async function exportDeck(format: "csv" | "json") {
+    let deck: TCard[];
+    try { deck = await api.listCards(); }
+    catch (e) { toast.error("カード取得失敗: " + (e as Error).message); return; }
+    if (format === "json") downloadText(JSON.stringify(deck, null, 2), `deck_${Date.now()}.json`, "application/json");
+    else downloadText(Papa.unparse({ fields: [...CARD_CSV_FIELDS], data: deck.map(toCsvRow) }), `deck_${Date.now()}.csv`);
+  }
+
+  async function resetHistory() {
+    try {
+      await Promise.all([api.clearResults(), api.clearCompareResults()]);
+      setResults([]); setSchedule({}); toast("履歴をクリアしました");
+    } catch (e) { toast.error("リセット失敗: " + (e as Error).message); }
   }
 
   /* ===== ショートカット ===== */
+  // クイズタブでだけ有効。ハンドラは毎回作り直されるので ref 経由で最新のものを呼ぶ
+  // （IME の変換確定の Enter と、入力候補を確定する Enter は除く）
+  const shortcuts = useRef({ grade, nextQuestion });
+  useEffect(() => { shortcuts.current = { grade, nextQuestion }; });
   useEffect(() => {
+    if (tab !== "play") return;
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Enter" && !e.ctrlKey) { e.preventDefault(); grade(); }
-      if (e.key === "Enter" && e.ctrlKey) { e.preventDefault(); nextQuestion(); }
+      if (e.key !== "Enter" || e.isComposing) return;
+      e.preventDefault();
+      if (e.ctrlKey) shortcuts.current.nextQuestion();
+      else shortcuts.current.grade();
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, []);
+  }, [tab]);
+
+  // 回答時の相場と今の相場を比べる用
+  const priceNow = useMemo(() => new Map(cards.map(c => [c.id, c.price])), [cards]);
 
   /* ===== 集計 ===== */
   const summary = useMemo(() => {
-    const mine = results.filter(r => r.user === user);
     const total = mine.length;
     const correct = mine.filter(r => r.correct).length;
     const rate = total ? Math.round((correct / total) * 100) : 0;
     const last5 = mine.slice(0, 5);
-    return { total, correct, rate, last5 };
-  }, [results, user]);
+    const { avgScore } = breakdown(mine);
+    // 価格誤差は自由入力の回答だけ（選択式は誤差を測れない）
+    const withErr = mine.filter(r => r.priceErrorPct != null);
+    const avgPriceErr = withErr.length ? Math.round(withErr.reduce((a, r) => a + Math.abs(r.priceErrorPct ?? 0), 0) / withErr.length * 10) / 10 : null;
+    // デッキ別（複数デッキに入っているカードはそれぞれに数える。削除済みカードの回答は除く）
+    const cardById = new Map(cards.map(c => [c.id, c]));
+    const byDeck = deckNames(cards)
+      .map(deck => ({ label: deck, ...breakdown(mine.filter(r => { const c = cardById.get(r.cardId); return c && decksOf(c).includes(deck); })) }))
+      .filter(d => d.total);
+    const byMode = QUIZ_MODES
+      .map(m => ({ label: m.label, ...breakdown(mine.filter(r => modeOf(r) === m.value)) }))
+      .filter(d => d.total);
+    const byAsked = QUIZ_ASKS
+      .map(a => ({ label: a.label, ...breakdown(mine.filter(r => askedOf(r) === a.value)) }))
+      .filter(d => d.total);
+    // 名前・価格それぞれの正答率は、その部分を聞いた回答だけで出す
+    const nameRate = partRate(mine, "name"), priceRate = partRate(mine, "price");
+    return { total, correct, rate, last5, avgScore, avgPriceErr, nameRate, priceRate, byDeck, byMode, byAsked };
+  }, [mine, cards]);
+
+  function practiceWeak(cardIds: string[]) {
+    setPracticeIds(cardIds);
+    setTab("play");
+    toast(`苦手なカード ${cardIds.length} 枚を練習します`);
+  }
 
   /* ===== 画面 ===== */
   return (
@@ -256,24 +404,62 @@ export default function App() {
             <Trophy className="h-6 w-6" />
             <h1 className="text-2xl md:text-3xl font-bold">カード相場クイズ</h1>
           </div>
-          <div className="flex items-center gap-2">
-            <User2 className="h-5 w-5" />
-            <Input value={user} onChange={e => setUser(e.target.value)} className="w-36" placeholder="ユーザー名" />
-          </div>
+          {me && (
+            <div className="flex items-center gap-2">
+              <User2 className="h-5 w-5" />
+              <span className="font-medium whitespace-nowrap">{me.displayName}</span>
+              <span className="text-sm text-gray-500 whitespace-nowrap">{me.department}{isAdmin ? "（管理者）" : ""}</span>
+              <Button variant="outline" size="sm" onClick={handleLogout}><LogOut className="h-4 w-4" />ユーザー切替</Button>
+            </div>
+          )}
         </div>
 
-        <Tabs defaultValue="play" className="w-full">
-          <TabsList className="grid grid-cols-3 w-full">
+        {!me ? (
+          authChecked
+            ? <LoginPanel needsSetup={needsSetup} onLogin={u => { setMe(u); setNeedsSetup(false); }} />
+            : <div className="h-72 grid place-items-center text-gray-500">読み込み中…</div>
+        ) : (
+        <Tabs value={tab} onValueChange={setTab} className="w-full">
+          <TabsList className={`grid w-full ${isAdmin ? "grid-cols-7" : "grid-cols-6"}`}>
             <TabsTrigger value="play">クイズ</TabsTrigger>
+            <TabsTrigger value="compare">比較</TabsTrigger>
+            <TabsTrigger value="exam">試験</TabsTrigger>
             <TabsTrigger value="settings"><Settings className="h-4 w-4 mr-1" />設定</TabsTrigger>
             <TabsTrigger value="history">履歴</TabsTrigger>
+            <TabsTrigger value="progress">成長</TabsTrigger>
+            {isAdmin && <TabsTrigger value="analytics">分析</TabsTrigger>}
           </TabsList>
 
           {/* クイズ */}
           <TabsContent value="play">
+            {practiceIds ? (
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-2 p-3 rounded-xl border bg-amber-50">
+                <span className="text-sm">苦手なカードを練習中（{filtered.length} 枚）。プリセットとデッキの絞り込みは使っていません。</span>
+                <Button size="sm" variant="outline" onClick={() => setPracticeIds(null)}>練習を終える</Button>
+              </div>
+            ) : (presets.length > 0 || decks.length > 1) && (
+              <div className="mb-4 grid gap-2">
+                {presets.length > 0 && <PresetPicker presets={presets} selected={preset} onChange={setPresetId} />}
+                {decks.length > 1 && <DeckPicker cards={activeCards} decks={decks} selected={deckFilter} onChange={setDeckFilter} />}
+              </div>
+            )}
             <div className="grid md:grid-cols-2 gap-6">
               <UICard className="overflow-hidden">
-                <CardHeader><CardTitle>問題</CardTitle></CardHeader>
+                <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                  <CardTitle>問題</CardTitle>
+                  <div className="flex flex-wrap gap-2">
+                    <div className="flex gap-1">
+                      {QUIZ_ASKS.map(a => (
+                        <Button key={a.value} size="sm" variant={asked === a.value ? "secondary" : "ghost"} onClick={() => setAsked(a.value)}>{a.label}</Button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {QUIZ_MODES.map(m => (
+                        <Button key={m.value} size="sm" variant={mode === m.value ? "secondary" : "ghost"} onClick={() => setMode(m.value)}>{m.label}</Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
                 <CardContent>
                   {current ? (
                     <div className="grid gap-4">
@@ -287,14 +473,35 @@ export default function App() {
                         )}
                       </div>
                       <div className="grid gap-3">
-                        <div className="grid gap-2">
-                          <Label>カード名</Label>
-                          <Input ref={nameRef} value={ansName} onChange={e => setAnsName(e.target.value)} placeholder="例：リザードン VMAX" className="h-12 text-lg" />
-                        </div>
-                        <div className="grid gap-2">
-                          <Label>相場（円）</Label>
-                          <Input value={ansPrice} onChange={e => setAnsPrice(e.target.value)} inputMode="numeric" placeholder="例：58000" className="h-12 text-lg" />
-                        </div>
+                        {/* 価格だけ聞くときは名前と鑑定を見せる */}
+                        {!asksName(asked) && (
+                          <div>
+                            <div className="font-semibold text-lg">{current.name} / {gradeLabel(current)}</div>
+                            {metaLine(current) && <div className="text-sm text-gray-600">{metaLine(current)}</div>}
+                          </div>
+                        )}
+                        {mode === "choice" && choices ? (
+                          <ChoicePanel card={current} choices={choices} asked={asked} picked={picked} onPick={setPicked} revealed={showAnswer} />
+                        ) : (
+                          <>
+                            {asksName(asked) && (
+                              <div className="grid gap-2">
+                                <Label>カード名</Label>
+                                <NameAutocomplete
+                                  value={ansName} onChange={setAnsName} options={nameOptions} enabled={autocomplete}
+                                  inputRef={nameRef} onPicked={() => priceRef.current?.focus()}
+                                  placeholder="例：リザードン VMAX" className="h-12 text-lg"
+                                />
+                              </div>
+                            )}
+                            {asksPrice(asked) && (
+                              <div className="grid gap-2">
+                                <Label>相場（円）</Label>
+                                <Input ref={priceRef} value={ansPrice} onChange={e => setAnsPrice(e.target.value)} inputMode="numeric" placeholder="例：58000" className="h-12 text-lg" />
+                              </div>
+                            )}
+                          </>
+                        )}
                         <div className="flex gap-3 pt-2">
                           <Button size="lg" className="flex-1" onClick={grade}><Check className="mr-2 h-4 w-4" />採点（Enter）</Button>
                           <Button size="lg" variant="secondary" className="flex-1" onClick={nextQuestion}><RotateCcw className="mr-2 h-4 w-4" />次の問題（Ctrl+Enter）</Button>
@@ -305,8 +512,18 @@ export default function App() {
                           <motion.div initial={{opacity:0,y:-6}} animate={{opacity:1,y:0}} exit={{opacity:0}} className="p-4 rounded-xl bg-gray-100 border">
                             <div className="text-sm text-gray-600">正解</div>
                             <div className="font-semibold text-lg">
-                              {current.name} / {current.psa ? `PSA${current.psa} / ` : ""}{current.price.toLocaleString()} 円
+                              {current.name} / {gradeLabel(current)} / {current.price.toLocaleString()} 円
                             </div>
+                            {metaLine(current) && <div className="text-sm text-gray-600">{metaLine(current)}</div>}
+                            {lastResult?.cardId === current.id && lastResult.score != null && (
+                              <div className="text-sm text-gray-600 mt-1">
+                                得点 {lastResult.score} 点{askedOf(lastResult) === "both" && <>（名前 {lastResult.namePoints} / 価格 {lastResult.pricePoints}）</>}{lastResult.nameSimilarity != null && <>・名前の一致度 {Math.round(lastResult.nameSimilarity * 100)}%</>}{lastResult.priceErrorPct != null && <>・価格誤差 {fmtPct(lastResult.priceErrorPct)}</>}
+                              </div>
+                            )}
+                            {lastResult?.cardId === current.id && lastResult.tolRange && (
+                              <div className="text-sm text-gray-600">許容範囲: {fmtRange(lastResult.tolRange)}</div>
+                            )}
+                            <div className="mt-3"><PriceTrend points={priceHistory(current)} /></div>
                           </motion.div>
                         )}
                       </AnimatePresence>
@@ -325,13 +542,29 @@ export default function App() {
                     <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">正解</div><div className="text-2xl font-bold">{summary.correct}</div></div>
                     <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">正答率</div><div className="text-2xl font-bold">{summary.rate}%</div></div>
                   </div>
+                  <div className="grid grid-cols-2 gap-3 text-center">
+                    <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">平均得点</div><div className="text-2xl font-bold">{summary.avgScore ?? "-"}</div></div>
+                    <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">平均価格誤差</div><div className="text-2xl font-bold">{summary.avgPriceErr != null ? `±${summary.avgPriceErr}%` : "-"}</div></div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-center text-sm">
+                    <div className="p-2 rounded-xl bg-white border"><div className="text-gray-500">名前の正答率</div><div className="text-lg font-semibold">{summary.nameRate != null ? `${summary.nameRate}%` : "-"}</div></div>
+                    <div className="p-2 rounded-xl bg-white border"><div className="text-gray-500">価格の正答率</div><div className="text-lg font-semibold">{summary.priceRate != null ? `${summary.priceRate}%` : "-"}</div></div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3 text-center text-sm">
+                    <div className="p-2 rounded-xl bg-white border"><div className="text-gray-500">今日の復習</div><div className="text-lg font-semibold">{queue.due}</div></div>
+                    <div className="p-2 rounded-xl bg-white border"><div className="text-gray-500">未学習</div><div className="text-lg font-semibold">{queue.fresh}</div></div>
+                    <div className="p-2 rounded-xl bg-white border"><div className="text-gray-500">学習中</div><div className="text-lg font-semibold">{queue.learning}</div></div>
+                  </div>
+                  {summary.byMode.length > 1 && <BreakdownTable heading="出題形式" rows={summary.byMode} />}
+                  {summary.byAsked.length > 1 && <BreakdownTable heading="出題内容" rows={summary.byAsked} />}
+                  {summary.byDeck.length > 1 && <BreakdownTable heading="デッキ" rows={summary.byDeck} />}
                   <div>
                     <div className="text-sm text-gray-500 mb-2">直近（{summary.last5.length}）</div>
                     <div className="grid gap-2">
                       {summary.last5.map((r,i)=>(
                         <div key={i} className="text-sm p-2 rounded-lg border bg-white flex items-center justify-between">
                           <div className="truncate mr-2">{r.correct?"✅":"❌"} {r.correctName} / {r.correctPrice.toLocaleString()}円</div>
-                          <div className="text-gray-600">→ {r.answeredName} / {r.answeredPrice.toLocaleString()}円</div>
+                          <div className="text-gray-600">→ {answerText(r)}</div>
                         </div>
                       ))}
                     </div>
@@ -341,17 +574,27 @@ export default function App() {
             </div>
           </TabsContent>
 
+          {/* 比較クイズ */}
+          <TabsContent value="compare">
+            <CompareQuiz cards={filtered} userId={me.id} />
+          </TabsContent>
+
+          {/* 試験 */}
+          <TabsContent value="exam">
+            <ExamPlayer onFinished={reloadMine} />
+          </TabsContent>
+
           {/* 設定（管理者限定） */}
           <TabsContent value="settings">
             {!isAdmin ? (
               <UICard>
                 <CardHeader><CardTitle>管理者のみアクセス可能</CardTitle></CardHeader>
-                <CardContent className="flex items-center justify-between gap-4">
-                  <div className="text-sm text-gray-600">設定変更には管理者パスワードが必要です。</div>
-                  <Button onClick={handleAdminAccess}>パスワード入力</Button>
+                <CardContent className="text-sm text-gray-600">
+                  設定変更には管理者アカウントでのログインが必要です。
                 </CardContent>
               </UICard>
             ) : (
+            <div className="grid gap-6">
               <UICard>
                 <CardHeader className="flex flex-row items-center justify-between">
                   <CardTitle>データ & ルール（管理者）</CardTitle>
@@ -359,9 +602,8 @@ export default function App() {
                     <Button variant="outline" onClick={exportResults}><Download className="h-4 w-4 mr-2" />履歴CSV出力</Button>
                     <Button
                       variant="destructive"
-                      onClick={() => { if (confirm("すべての履歴を削除します。よろしいですか？")) { setResults([]); setMissMap({}); toast("履歴をクリアしました"); } }}
+                      onClick={() => { if (confirm("すべての回答履歴（比較クイズを含む）と復習スケジュールを削除します。元に戻すにはバックアップからの復元が必要です。よろしいですか？")) resetHistory(); }}
                     >リセット</Button>
-                    <Button variant="secondary" onClick={handleAdminLogout}>管理者モードOFF</Button>
                   </div>
                 </CardHeader>
 
@@ -369,35 +611,40 @@ export default function App() {
                   <div className="grid gap-4">
                     <div>
                       <Label className="mb-2 block">価格許容誤差（±{tolPct}%）</Label>
-                      <Slider value={[tolPct]} min={1} max={30} step={1} onValueChange={([v])=>setTolPct(v)} />
+                      <Slider value={[tolPct]} min={1} max={30} step={1} onValueChange={([v])=>changeSettings({ tolPct: v }, false)} onValueCommit={([v])=>changeSettings({ tolPct: v })} />
+                    </div>
+                    <div className="grid gap-2 p-3 rounded-xl border bg-white">
+                      <div className="font-medium">価格帯ごとの許容誤差</div>
+                      <ToleranceRulesEditor key={JSON.stringify(tolRules)} rules={tolRules} tolPct={tolPct} onSave={rules => changeSettings({ tolRules: rules })} />
                     </div>
                     <div className="flex items-center justify-between p-3 rounded-xl border bg-white">
                       <div>
                         <div className="font-medium">名前の一致を厳格にする</div>
-                        <div className="text-sm text-gray-500">オン：完全一致（エイリアス可） / オフ：部分一致OK</div>
+                        <div className="text-sm text-gray-500">オン：表記ゆれ（カナ・全半角・長音）以外は不正解 / オフ：多少の打ち間違いも正解</div>
                       </div>
-                      <Switch checked={strictName} onCheckedChange={setStrictName}/>
+                      <Switch checked={strictName} onCheckedChange={v=>changeSettings({ strictName: v })}/>
                     </div>
-                    <div className="grid gap-2">
-                      <Label>PSA フィルタ</Label>
-                      <Select value={psaFilter} onValueChange={setPsaFilter}>
-                        <SelectTrigger className="w-48"><SelectValue/></SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all">すべて</SelectItem>
-                          <SelectItem value="10">PSA10のみ</SelectItem>
-                          <SelectItem value="9以下">PSA9以下</SelectItem>
-                        </SelectContent>
-                      </Select>
+                    <div className="flex items-center justify-between p-3 rounded-xl border bg-white">
+                      <div>
+                        <div className="font-medium">カード名の入力候補を出す</div>
+                        <div className="text-sm text-gray-500">試験形式で練習させるときはオフに（試験では常に出しません）</div>
+                      </div>
+                      <Switch checked={autocomplete} onCheckedChange={v=>changeSettings({ autocomplete: v })}/>
                     </div>
+                    <div className="grid gap-2 p-3 rounded-xl border bg-white">
+                      <div className="font-medium">出題するカード</div>
+                      <CardFilterEditor cards={activeCards} value={cardFilter} onChange={f => changeSettings({ cardFilter: f })} />
+                    </div>
+                    <UserAdmin me={me} />
                   </div>
 
                   <div className="grid gap-4">
                     <div className="grid gap-2">
-                      <Label>CSVインポート <span className="text-xs text-gray-500">（IMG_URL, NAME, PSA, PRICE, ACTIVE, ALIASES）</span></Label>
+                      <Label>CSV / JSONインポート <span className="text-xs text-gray-500">（ID, IMG_URL, NAME, SET, NUMBER, LANGUAGE, RARITY, GRADER, GRADE, PRICE, ACTIVE, ALIASES, DECKS ＋任意で TOL_PCT, TOL_YEN, DATE, SOURCE）</span></Label>
                       <label className="border-dashed border rounded-xl p-6 grid place-items-center bg-white cursor-pointer hover:bg-gray-50">
                         <Upload className="h-6 w-6 mb-1"/>
                         <div className="text-sm">ファイルを選択</div>
-                        <input type="file" accept=".csv" className="hidden" onChange={e=>{ const f=e.target.files?.[0]; if(f) importCSV(f); e.currentTarget.value=""; }} />
+                        <input type="file" accept=".csv,.json" className="hidden" onChange={e=>{ const f=e.target.files?.[0]; if(f) importFile(f); e.currentTarget.value=""; }} />
                       </label>
                     </div>
 
@@ -405,24 +652,50 @@ export default function App() {
                       <Label>JSONインポート（配列）</Label>
                       <textarea
                         className="min-h-28 rounded-xl border p-3"
-                        placeholder='[{"IMG_URL":"https://...","NAME":"ピカチュウ","PSA":10,"PRICE":58000,"ALIASES":"ピカ, pikachu"}]'
+                        placeholder='[{"IMG_URL":"https://...","NAME":"ピカチュウ","SET":"151","LANGUAGE":"日本語","GRADER":"BGS","GRADE":9.5,"PRICE":58000,"ALIASES":"ピカ, pikachu"}]'
                         onBlur={(e)=>{ const t=e.target.value.trim(); if(t) importJSON(t); }}
                       />
                     </div>
 
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" onClick={() => exportDeck("csv")}><Download className="h-4 w-4 mr-2" />デッキをCSV出力</Button>
+                      <Button variant="outline" onClick={() => exportDeck("json")}><Download className="h-4 w-4 mr-2" />デッキをJSON出力（相場履歴つき）</Button>
+                    </div>
+
+                    {pendingImport && (
+                      <ImportPreview rows={pendingImport.rows} plan={pendingImport.plan} onApply={applyImport} onCancel={() => setPendingImport(null)} />
+                    )}
+
                     <div className="text-sm text-gray-500">
-                      インポート後は <b>間違いが多いカードが出やすく</b> になります。暗記速度が上がります。
+                      出題は <b>間隔反復（SM-2）</b>：間違えたカードはすぐ、覚えたカードは間隔をあけて出ます。
                     </div>
                   </div>
                 </CardContent>
               </UICard>
+              <UICard>
+                <CardHeader><CardTitle>バックアップ / 復元（管理者）</CardTitle></CardHeader>
+                <CardContent><BackupPanel /></CardContent>
+              </UICard>
+              <UICard>
+                <CardHeader><CardTitle>カード管理（管理者）</CardTitle></CardHeader>
+                <CardContent><CardEditor cards={cards} setCards={setCards} /></CardContent>
+              </UICard>
+              <UICard>
+                <CardHeader><CardTitle>出題プリセット（管理者）</CardTitle></CardHeader>
+                <CardContent><PresetAdmin cards={activeCards} presets={presets} setPresets={setPresets} /></CardContent>
+              </UICard>
+              <UICard>
+                <CardHeader><CardTitle>試験（管理者）</CardTitle></CardHeader>
+                <CardContent><ExamAdmin cards={cards} /></CardContent>
+              </UICard>
+            </div>
             )}
           </TabsContent>
 
           {/* 履歴 */}
           <TabsContent value="history">
             <UICard>
-              <CardHeader><CardTitle>回答履歴（{user}）</CardHeader></CardHeader>
+              <CardHeader><CardTitle>回答履歴（{me.displayName}）</CardTitle></CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
                   <table className="min-w-full text-sm">
@@ -433,16 +706,25 @@ export default function App() {
                         <th className="p-2 text-left">正解相場</th>
                         <th className="p-2 text-left">回答</th>
                         <th className="p-2 text-left">判定</th>
+                        <th className="p-2 text-left">得点</th>
+                        <th className="p-2 text-left">形式</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {results.filter(r=>r.user===user).map((r,i)=>(
+                      {mine.map((r,i)=>(
                         <tr key={i} className="border-b">
                           <td className="p-2 whitespace-nowrap">{new Date(r.ts).toLocaleString()}</td>
                           <td className="p-2 whitespace-nowrap">{r.correctName}</td>
-                          <td className="p-2 whitespace-nowrap">{r.correctPrice.toLocaleString()} 円</td>
-                          <td className="p-2 whitespace-nowrap">{r.answeredName} / {r.answeredPrice.toLocaleString()} 円</td>
-                          <td className="p-2 whitespace-nowrap">{r.correct?"✅ 正解":"❌"}（名:{r.nameOk?"○":"×"} 価:{r.priceOk?"○":"×"}）</td>
+                          <td className="p-2 whitespace-nowrap">
+                            {r.correctPrice.toLocaleString()} 円
+                            {priceNow.has(r.cardId) && priceNow.get(r.cardId) !== r.correctPrice && (
+                              <span className="text-xs text-gray-500 ml-1">（現在 {priceNow.get(r.cardId)?.toLocaleString()} 円）</span>
+                            )}
+                          </td>
+                          <td className="p-2 whitespace-nowrap">{answerText(r)}</td>
+                          <td className="p-2 whitespace-nowrap">{r.correct?"✅ 正解":"❌"}（{partsText(r)}）</td>
+                          <td className="p-2 whitespace-nowrap">{r.score != null ? `${r.score} 点${r.priceErrorPct != null ? `（${fmtPct(r.priceErrorPct)}）` : ""}` : "-"}</td>
+                          <td className="p-2 whitespace-nowrap">{r.examId ? "試験" : modeLabel(modeOf(r))}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -451,7 +733,20 @@ export default function App() {
               </CardContent>
             </UICard>
           </TabsContent>
+
+          {/* 成長 */}
+          <TabsContent value="progress">
+            <ProgressPanel results={mine} cards={playable} onPractice={practiceWeak} />
+          </TabsContent>
+
+          {/* 分析（管理者） */}
+          {isAdmin && (
+            <TabsContent value="analytics">
+              <AnalyticsDashboard cards={cards} />
+            </TabsContent>
+          )}
         </Tabs>
+        )}
 
         <UICard>
           <CardContent className="text-xs text-gray-500 p-4">
@@ -459,7 +754,7 @@ export default function App() {
             <ul className="list-disc ml-5 space-y-1">
               <li>Enter = 採点 / Ctrl+Enter = 次の問題</li>
               <li>価格はカンマ/円ありでもOK（自動で数値化）</li>
-              <li>CSV は <b>IMG_URL, NAME, PSA, PRICE, ACTIVE, ALIASES</b> に対応</li>
+              <li>CSV は <b>IMG_URL, NAME, SET, NUMBER, LANGUAGE, RARITY, GRADER, GRADE, PRICE, ACTIVE, ALIASES, DECKS</b> に対応（GRADER は PSA / BGS / CGC / RAW、GRADE は 0.5 刻み。旧形式の PSA 列も読めます。DATE, SOURCE を付けると相場履歴に日付・出所が残ります。ALIASES と DECKS はカンマ区切りで、空白を含む名前も書けます）</li>
             </ul>
           </CardContent>
         </UICard>
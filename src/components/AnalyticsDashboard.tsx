@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Download, RefreshCw } from "lucide-react";
+import * as Papa from "papaparse";
+import type { TCard, TResult, TUser } from "@/lib/types";
+import {
+  PERIODS, WEEKDAYS, activityHeatmap, bucketLabel, cardMissRates, confusedCards, inPeriod, priceErrorByBand, recentBuckets, userTrends,
+} from "@/lib/analytics";
+import { api } from "@/lib/api";
+import { downloadText } from "@/lib/download";
+
+const TOP = 20;
+
+const pct = (v: number | null) => (v == null ? "-" : `${v}%`);
+
+// 正答率の高さで背景を濃くする
+const rateTone = (v: number | null) => (v == null ? undefined : { backgroundColor: `rgba(22, 163, 74, ${(v / 100) * 0.35})` });
+
+function Section({ title, onCsv, children }: { title: string; onCsv: () => void; children: React.ReactNode }) {
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">{title}</div>
+        <Button size="sm" variant="outline" onClick={onCsv}><Download className="h-4 w-4 mr-1" />CSV</Button>
+      </div>
+      <div className="overflow-x-auto">{children}</div>
+    </div>
+  );
+}
+
+const csv = (name: string, rows: Record<string, unknown>[]) => downloadText(Papa.unparse(rows), `analytics_${name}_${Date.now()}.csv`);
+
+/* 分析（管理者）：全ユーザーの回答履歴から推移・間違いやすいカード・取り違え・価格帯別の誤差・時間帯を集計 */
+export function AnalyticsDashboard({ cards }: { cards: TCard[] }) {
+  const [results, setResults] = useState<TResult[]>([]);
+  const [users, setUsers] = useState<TUser[]>([]);
+  const [days, setDays] = useState(30);
+
+  function reload() {
+    Promise.all([api.listResults(), api.listUsers()])
+      .then(([rs, us]) => { setResults(rs); setUsers(us); })
+      .catch((e: Error) => toast.error("履歴取得失敗: " + e.message));
+  }
+  useEffect(reload, []);
+
+  const rs = useMemo(() => inPeriod(results, days), [results, days]);
+  const names = useMemo(() => new Map(users.map(u => [u.id, u.displayName])), [users]);
+  const weeks = useMemo(() => recentBuckets(rs, "week", 8), [rs]);
+  const trends = useMemo(() => userTrends(rs, names, weeks), [rs, names, weeks]);
+  const misses = useMemo(() => cardMissRates(rs, cards), [rs, cards]);
+  const confused = useMemo(() => confusedCards(rs, cards), [rs, cards]);
+  const bands = useMemo(() => priceErrorByBand(rs), [rs]);
+  const heat = useMemo(() => activityHeatmap(rs), [rs]);
+  const heatMax = Math.max(1, ...heat.flat());
+
+  return (
+    <UICard>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+        <CardTitle>分析（全ユーザー・{rs.length} 件）</CardTitle>
+        <div className="flex gap-1">
+          {PERIODS.map(p => (
+            <Button key={p.days} size="sm" variant={days === p.days ? "secondary" : "ghost"} onClick={() => setDays(p.days)}>{p.label}</Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={reload}><RefreshCw className="h-4 w-4" /></Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <Section title="ユーザー別の正答率（週ごと）" onCsv={() => csv("users", trends.map(t => ({
+          user: t.user, name: t.name, total: t.total, rate: t.rate,
+          ...Object.fromEntries(weeks.map((w, i) => [new Date(w).toISOString().slice(0, 10), t.byWeek[i]])),
+        })))}>
+          <table className="min-w-full text-sm">
+            <thead><tr className="bg-gray-100">
+              <th className="p-1.5 text-left">ユーザー</th><th className="p-1.5 text-right">回答</th><th className="p-1.5 text-right">正答率</th>
+              {weeks.map(w => <th key={w} className="p-1.5 text-right whitespace-nowrap">{bucketLabel(w, "week")}</th>)}
+            </tr></thead>
+            <tbody>
+              {trends.map(t => (
+                <tr key={t.user} className="border-t">
+                  <td className="p-1.5 whitespace-nowrap">{t.name}</td>
+                  <td className="p-1.5 text-right">{t.total}</td>
+                  <td className="p-1.5 text-right font-medium">{pct(t.rate)}</td>
+                  {t.byWeek.map((v, i) => <td key={weeks[i]} className="p-1.5 text-right" style={rateTone(v)}>{pct(v)}</td>)}
+                </tr>
+              ))}
+              {!trends.length && <tr><td colSpan={3 + weeks.length} className="p-3 text-center text-gray-500">回答がありません</td></tr>}
+            </tbody>
+          </table>
+        </Section>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Section title={`間違いやすいカード（回答 3 件以上・上位 ${TOP}）`} onCsv={() => csv("cards", misses)}>
+            <table className="min-w-full text-sm">
+              <thead><tr className="bg-gray-100">
+                <th className="p-1.5 text-left">カード</th><th className="p-1.5 text-right">回答</th><th className="p-1.5 text-right">不正解率</th>
+                <th className="p-1.5 text-right">名前×</th><th className="p-1.5 text-right">価格×</th>
+              </tr></thead>
+              <tbody>
+                {misses.slice(0, TOP).map(m => (
+                  <tr key={m.cardId} className="border-t">
+                    <td className="p-1.5">{m.name}</td>
+                    <td className="p-1.5 text-right">{m.total}</td>
+                    <td className="p-1.5 text-right font-medium">{m.missRate}%</td>
+                    <td className="p-1.5 text-right">{m.nameMisses}</td>
+                    <td className="p-1.5 text-right">{m.priceMisses}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+
+          <Section title={`取り違えの多いカード（上位 ${TOP}）`} onCsv={() => csv("confused", confused)}>
+            <table className="min-w-full text-sm">
+              <thead><tr className="bg-gray-100">
+                <th className="p-1.5 text-left">出題</th><th className="p-1.5 text-left">答えた名前</th><th className="p-1.5 text-right">回数</th>
+              </tr></thead>
+              <tbody>
+                {confused.slice(0, TOP).map(c => (
+                  <tr key={`${c.cardId}-${c.answeredId}`} className="border-t">
+                    <td className="p-1.5">{c.name}</td>
+                    <td className="p-1.5">{c.answeredName}</td>
+                    <td className="p-1.5 text-right">{c.count}</td>
+                  </tr>
+                ))}
+                {!confused.length && <tr><td colSpan={3} className="p-3 text-center text-gray-500">別のカードの名前を答えた回答はありません</td></tr>}
+              </tbody>
+            </table>
+          </Section>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <Section title="価格帯別の価格誤差" onCsv={() => csv("price_bands", bands)}>
+            <table className="min-w-full text-sm">
+              <thead><tr className="bg-gray-100">
+                <th className="p-1.5 text-left">正解の相場</th><th className="p-1.5 text-right">回答</th><th className="p-1.5 text-right">価格の正答率</th><th className="p-1.5 text-right">平均誤差</th>
+              </tr></thead>
+              <tbody>
+                {bands.map(b => (
+                  <tr key={b.label} className="border-t">
+                    <td className="p-1.5 whitespace-nowrap">{b.label}</td>
+                    <td className="p-1.5 text-right">{b.total}</td>
+                    <td className="p-1.5 text-right">{pct(b.priceRate)}</td>
+                    <td className="p-1.5 text-right">{b.avgErr != null ? `±${b.avgErr}%` : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+
+          <Section title="回答の多い曜日・時間帯" onCsv={() => csv("activity", heat.map((row, d) => ({ weekday: WEEKDAYS[d], ...Object.fromEntries(row.map((n, h) => [`${h}時`, n])) })))}>
+            <div className="grid grid-cols-[1.5rem_repeat(24,minmax(0,1fr))] gap-px text-[10px] text-gray-500 min-w-[28rem]">
+              <div />
+              {heat[0].map((_, h) => <div key={h} className="text-center">{h % 3 === 0 ? h : ""}</div>)}
+              {heat.map((row, d) => (
+                <React.Fragment key={d}>
+                  <div className="text-xs">{WEEKDAYS[d]}</div>
+                  {row.map((n, h) => (
+                    <div key={h} title={`${WEEKDAYS[d]} ${h}時：${n} 件`} className="aspect-square rounded-sm border border-gray-100"
+                      style={{ backgroundColor: n ? `rgba(37, 99, 235, ${0.15 + (n / heatMax) * 0.85})` : undefined }} />
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </Section>
+        </div>
+      </CardContent>
+    </UICard>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { AlertTriangle, Download, Upload } from "lucide-react";
+import type { TQuarantineEntry } from "@/lib/types";
+import { migrateBackup, summarizeBackup, type TBackup } from "@/lib/backup";
+import { downloadText } from "@/lib/download";
+import { api } from "@/lib/api";
+
+const fmtDate = (ts: number) => new Date(ts).toLocaleString();
+
+/* ワークスペース全体のバックアップと復元（管理者） */
+export function BackupPanel() {
+  const [pending, setPending] = useState<{ raw: unknown; backup: TBackup; fileName: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [quarantined, setQuarantined] = useState<TQuarantineEntry[]>([]);
+
+  useEffect(() => {
+    api.listQuarantine().then(setQuarantined).catch((e: Error) => toast.error("退避データの取得失敗: " + e.message));
+  }, []);
+
+  async function download() {
+    try {
+      const b = await api.getBackup();
+      downloadText(JSON.stringify(b, null, 2), `card-quiz-backup-${new Date(b.createdAt).toISOString().slice(0, 10)}.json`, "application/json");
+    } catch (e) { toast.error("バックアップ失敗: " + (e as Error).message); }
+  }
+
+  // 読み込んだ時点で変換まで試し、内容を見せてから確定させる
+  async function pick(file: File) {
+    try {
+      const raw = JSON.parse(await file.text());
+      setPending({ raw, backup: migrateBackup(raw), fileName: file.name });
+    } catch (e) { toast.error("バックアップを読めません: " + (e as Error).message); }
+  }
+
+  async function restore() {
+    if (!pending) return;
+    if (!confirm("現在のデータをバックアップの内容で置き換えます。よろしいですか？")) return;
+    setBusy(true);
+    try {
+      await api.restoreBackup(pending.raw);
+      toast.success("復元しました。再読み込みします");
+      setTimeout(() => window.location.reload(), 800);
+    } catch (e) {
+      toast.error("復元失敗: " + (e as Error).message);
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={download}><Download className="h-4 w-4 mr-2" />バックアップを保存</Button>
+        <label className="inline-flex">
+          <span className="inline-flex items-center h-9 px-4 rounded-md border text-sm cursor-pointer hover:bg-gray-50"><Upload className="h-4 w-4 mr-2" />バックアップから復元</span>
+          <input type="file" accept=".json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) pick(f); e.currentTarget.value = ""; }} />
+        </label>
+      </div>
+      <div className="text-xs text-gray-500">
+        カード・ユーザー（パスワードはハッシュ）・設定・回答履歴（比較クイズを含む）・復習スケジュール・試験・出題プリセットを 1 ファイルにまとめます。取り扱いに注意してください。
+      </div>
+
+      {quarantined.length > 0 && (
+        <div className="grid gap-1 p-3 rounded-xl border border-amber-300 bg-amber-50 text-sm">
+          <div className="font-medium flex items-center gap-2"><AlertTriangle className="h-4 w-4" />壊れたデータを退避しました（data/quarantine/）</div>
+          {quarantined.map(q => (
+            <div key={q.file} className="text-xs text-gray-700 break-all">{fmtDate(q.at)} ・ {q.file}：{q.reason}</div>
+          ))}
+          <div className="text-xs text-gray-500">元のファイルは消していません。内容を確認して、必要ならバックアップから復元してください。</div>
+        </div>
+      )}
+
+      {pending && (
+        <div className="grid gap-2 p-3 rounded-xl border bg-gray-50 text-sm">
+          <div className="font-medium">{pending.fileName}</div>
+          <div className="text-gray-600">
+            作成 {fmtDate(pending.backup.createdAt)} ・ 形式 version {pending.backup.version}
+            {pending.backup.migratedFrom && <>（旧形式 {pending.backup.migratedFrom} から変換。カードと回答履歴は今のデータに足し、復習スケジュールはそこから作り直します。設定と間違い回数の重みは引き継がれません）</>}
+          </div>
+          <table className="w-full text-sm bg-white rounded-lg border">
+            <tbody>
+              {summarizeBackup(pending.backup).map(s => (
+                <tr key={s.key} className="border-t first:border-t-0">
+                  <td className="p-1.5">{s.label}</td>
+                  <td className="p-1.5 text-right">{s.count == null ? <span className="text-gray-400">含まれていない（現状のまま）</span> : !pending.backup.migratedFrom ? `${s.count.toLocaleString()} 件を置き換え`
+                    : s.key === "cards" ? `${s.count.toLocaleString()} 件を追加・更新（今のカードは残す）`
+                    : `${s.count.toLocaleString()} 件を追加（重複は除く）`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2">
+            <Button variant="destructive" disabled={busy} onClick={restore}>この内容で復元</Button>
+            <Button variant="ghost" disabled={busy} onClick={() => setPending(null)}>キャンセル</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Copy, Plus, Trash2, Undo2 } from "lucide-react";
+import type { Grader, TCard } from "@/lib/types";
+import { GRADERS, norm, priceHistory, type CardBulk, type CardRow } from "@/lib/quiz";
+import { checkRows } from "@/lib/importPlan";
+import { api } from "@/lib/api";
+
+const PAGE_SIZE = 20;
+
+type SortKey = "name" | "set" | "grade" | "price" | "active";
+type Undo = { label: string; run: () => Promise<void> };
+type Draft = {
+  name: string; set: string; number: string; language: string; rarity: string; grader: Grader; grade: string;
+  price: string; img: string; aliases: string; decks: string;
+};
+
+const emptyDraft: Draft = {
+  name: "", set: "", number: "", language: "", rarity: "", grader: "PSA", grade: "10",
+  price: "", img: "", aliases: "", decks: "",
+};
+
+const firstError = (row: CardRow) => checkRows([row]).find(x => x.level === "error")?.message;
+
+const sortValue = (c: TCard, key: SortKey) =>
+  key === "active" ? (c.active === false ? 0 : 1) : key === "grade" ? (c.grade ?? 0) : key === "set" ? (c.set ?? "") : c[key];
+
+const graderName = (g: Grader) => (g === "RAW" ? "未鑑定" : g);
+
+function GraderSelect({ value, onChange, className = "h-8 w-24" }: { value: Grader; onChange: (g: Grader) => void; className?: string }) {
+  return (
+    <Select value={value} onValueChange={v => onChange(v as Grader)}>
+      <SelectTrigger className={className}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {GRADERS.map(g => <SelectItem key={g} value={g}>{graderName(g)}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/* カード管理（管理者）：検索・並べ替え・ページ送り・その場で編集・一括操作・直前の取り消し */
+export function CardEditor({ cards, setCards }: { cards: TCard[]; setCards: React.Dispatch<React.SetStateAction<TCard[]>> }) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "name", desc: false });
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [undo, setUndo] = useState<Undo | null>(null);
+
+  const shown = useMemo(() => {
+    const q = norm(query);
+    const hit = q ? cards.filter(c => [c.name, c.set ?? "", c.number ?? "", ...(c.aliases ?? []), ...(c.decks ?? [])].some(s => norm(s).includes(q))) : cards;
+    const dir = sort.desc ? -1 : 1;
+    return [...hit].sort((a, b) => {
+      const x = sortValue(a, sort.key), y = sortValue(b, sort.key);
+      return (typeof x === "string" ? x.localeCompare(String(y), "ja") : Number(x) - Number(y)) * dir;
+    });
+  }, [cards, query, sort]);
+
+  const pages = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
+  const current = Math.min(page, pages - 1);
+  const rows = shown.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+  const picked = cards.filter(c => selected.has(c.id));
+
+  /* ===== サーバー操作（取り消し用に逆操作を残す） =====
+   * 複数カードへの変更は一括 API でまとめて保存する。途中で失敗したらどのカードも変わらない
+   */
+  async function run(label: string, action: () => Promise<Undo["run"]>) {
+    try {
+      const revert = await action();
+      setUndo({ label, run: revert });
+      return true;
+    } catch (e) {
+      toast.error(label + "に失敗（カードは変更していません）: " + (e as Error).message);
+      return false;
+    }
+  }
+
+  async function bulk(ops: CardBulk) {
+    const r = await api.bulkCards(ops);
+    const removed = new Set(r.removed);
+    const updated = new Map(r.updated.map(c => [c.id, c]));
+    setCards(prev => [...prev.filter(c => !removed.has(c.id)).map(c => updated.get(c.id) ?? c), ...r.created]);
+  }
+
+  // 更新前のカードをそのまま送り直せば相場履歴ごと元に戻る（許容誤差は「無し」も明示して戻す）
+  const restore = (prev: TCard[]) => () =>
+    bulk({ update: prev.map(c => ({ id: c.id, patch: { ...c, tolerance: c.tolerance ?? null, prices: priceHistory(c) } })) });
+
+  // patch は全カード共通の値か、カードごとに作る関数
+  const update = (targets: TCard[], patch: CardRow | ((c: TCard) => CardRow), label: string) => run(label, async () => {
+    await bulk({ update: targets.map(c => ({ id: c.id, patch: typeof patch === "function" ? patch(c) : patch })) });
+    return restore(targets);
+  });
+
+  const remove = (targets: TCard[], label: string) => run(label, async () => {
+    const ids = new Set(targets.map(c => c.id));
+    await bulk({ remove: [...ids] });
+    setSelected(prev => new Set([...prev].filter(id => !ids.has(id))));
+    // id と相場履歴を保ったまま作り直す（回答履歴・復習スケジュールはそのまま使える）
+    return () => bulk({ create: targets.map(c => ({ ...c, prices: priceHistory(c) })) });
+  });
+
+  const create = (row: CardRow, label: string) => run(label, async () => {
+    const card = await api.createCard(row);
+    setCards(prev => [...prev, card]);
+    return async () => {
+      await api.deleteCard(card.id);
+      setCards(prev => prev.filter(c => c.id !== card.id));
+    };
+  });
+
+  // インポートと同じ規則で検証してから保存（失敗したら入力を元に戻す）
+  async function edit(c: TCard, field: keyof Draft | "TOL_PCT" | "TOL_YEN", input: HTMLInputElement, before: string) {
+    const value = input.value.trim();
+    if (value === before) return;
+    const error = firstError({ ...c, [field]: value });
+    if (error) { toast.error(error); input.value = before; return; }
+    if (!(await update([c], { [field]: value }, `「${c.name}」の編集`))) input.value = before;
+  }
+
+  // 選んだカードのデッキを一括で付け外し（他のデッキはそのまま）
+  function editDecks(mode: "add" | "remove") {
+    const deck = prompt(mode === "add" ? "追加するデッキ名" : "外すデッキ名")?.trim();
+    if (!deck) return;
+    const targets = picked.filter(c => (c.decks ?? []).includes(deck) !== (mode === "add"));
+    if (!targets.length) { toast(mode === "add" ? "選んだカードはすべてそのデッキに入っています" : "そのデッキのカードは選ばれていません"); return; }
+    const decks = (c: TCard) => (mode === "add" ? [...(c.decks ?? []), deck] : (c.decks ?? []).filter(d => d !== deck));
+    update(targets, c => ({ decks: decks(c) }), `${targets.length} 枚をデッキ「${deck}」${mode === "add" ? "に追加" : "から外す"}`);
+  }
+
+  async function addDraft() {
+    const error = firstError(draft);
+    if (error) { toast.error(error); return; }
+    if (await create({ ...draft }, `「${draft.name}」の追加`)) setDraft(emptyDraft);
+  }
+
+  async function runUndo() {
+    if (!undo) return;
+    try {
+      await undo.run();
+      toast(`取り消しました：${undo.label}`);
+      setUndo(null);
+    } catch (e) { toast.error("取り消しに失敗: " + (e as Error).message); }
+  }
+
+  function toggleSort(key: SortKey) {
+    setSort(s => ({ key, desc: s.key === key ? !s.desc : false }));
+  }
+
+  function toggle(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }
+
+  const allOnPage = rows.length > 0 && rows.every(c => selected.has(c.id));
+  function togglePage() {
+    setSelected(prev => {
+      const next = new Set(prev);
+      rows.forEach(c => (allOnPage ? next.delete(c.id) : next.add(c.id)));
+      return next;
+    });
+  }
+
+  const header = (key: SortKey, label: string) => (
+    <th className="p-1.5 text-left cursor-pointer select-none whitespace-nowrap" onClick={() => toggleSort(key)}>
+      {label}{sort.key === key && (sort.desc ? <ArrowDown className="inline h-3 w-3 ml-1" /> : <ArrowUp className="inline h-3 w-3 ml-1" />)}
+    </th>
+  );
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input value={query} onChange={e => { setQuery(e.target.value); setPage(0); }} placeholder="カード名・別名・セット・番号・デッキで検索" className="h-8 w-64" />
+        <span className="text-sm text-gray-500">{shown.length} / {cards.length} 枚</span>
+        <div className="ml-auto flex items-center gap-2">
+          {undo && <Button size="sm" variant="outline" onClick={runUndo}><Undo2 className="h-4 w-4 mr-2" />取り消す：{undo.label}</Button>}
+        </div>
+      </div>
+
+      {picked.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm p-2 rounded-lg border bg-gray-50">
+          <span>{picked.length} 枚選択中</span>
+          <Button size="sm" variant="outline" onClick={() => update(picked, { active: true }, `${picked.length} 枚を出題オン`)}>出題オン</Button>
+          <Button size="sm" variant="outline" onClick={() => update(picked, { active: false }, `${picked.length} 枚を出題オフ`)}>出題オフ</Button>
+          <Button size="sm" variant="outline" onClick={() => editDecks("add")}>デッキに追加</Button>
+          <Button size="sm" variant="outline" onClick={() => editDecks("remove")}>デッキから外す</Button>
+          <Button size="sm" variant="destructive" onClick={() => confirm(`${picked.length} 枚を削除しますか？`) && remove(picked, `${picked.length} 枚の削除`)}>
+            <Trash2 className="h-4 w-4 mr-2" />削除
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>選択解除</Button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-1.5"><input type="checkbox" checked={allOnPage} onChange={togglePage} /></th>
+              {header("name", "名前")}
+              {header("set", "セット")}
+              <th className="p-1.5 text-left">番号</th>
+              <th className="p-1.5 text-left">言語</th>
+              <th className="p-1.5 text-left">レアリティ</th>
+              <th className="p-1.5 text-left">鑑定</th>
+              {header("grade", "グレード")}
+              {header("price", "価格")}
+              <th className="p-1.5 text-left">画像URL</th>
+              <th className="p-1.5 text-left">別名</th>
+              <th className="p-1.5 text-left">デッキ</th>
+              <th className="p-1.5 text-left whitespace-nowrap" title="空なら価格帯ごとの設定に従う">許容誤差（±% / 最低円）</th>
+              {header("active", "出題")}
+              <th className="p-1.5" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(c => (
+              <tr key={c.id} className={`border-t ${c.active === false ? "opacity-60" : ""}`}>
+                <td className="p-1.5"><input type="checkbox" checked={selected.has(c.id)} onChange={() => toggle(c.id)} /></td>
+                <td className="p-1.5 min-w-40"><Input key={c.name} defaultValue={c.name} className="h-8" onBlur={e => edit(c, "name", e.target, c.name)} /></td>
+                <td className="p-1.5 min-w-32"><Input key={c.set} defaultValue={c.set} className="h-8" onBlur={e => edit(c, "set", e.target, c.set ?? "")} /></td>
+                <td className="p-1.5 w-24"><Input key={c.number} defaultValue={c.number} className="h-8" onBlur={e => edit(c, "number", e.target, c.number ?? "")} /></td>
+                <td className="p-1.5 w-20"><Input key={c.language} defaultValue={c.language} className="h-8" onBlur={e => edit(c, "language", e.target, c.language ?? "")} /></td>
+                <td className="p-1.5 w-20"><Input key={c.rarity} defaultValue={c.rarity} className="h-8" onBlur={e => edit(c, "rarity", e.target, c.rarity ?? "")} /></td>
+                <td className="p-1.5"><GraderSelect value={c.grader} onChange={g => update([c], { grader: g }, `「${c.name}」の鑑定会社`)} /></td>
+                <td className="p-1.5 w-16">
+                  {c.grader === "RAW"
+                    ? <span className="text-gray-400">-</span>
+                    : <Input key={c.grade} defaultValue={c.grade ?? ""} inputMode="decimal" className="h-8" onBlur={e => edit(c, "grade", e.target, String(c.grade))} />}
+                </td>
+                <td className="p-1.5 w-28"><Input key={c.price} defaultValue={c.price} inputMode="numeric" className="h-8" onBlur={e => edit(c, "price", e.target, String(c.price))} /></td>
+                <td className="p-1.5 min-w-40"><Input key={c.img} defaultValue={c.img} className="h-8" onBlur={e => edit(c, "img", e.target, c.img)} /></td>
+                <td className="p-1.5 min-w-32">
+                  <Input key={c.aliases?.join(", ")} defaultValue={c.aliases?.join(", ")} className="h-8" onBlur={e => edit(c, "aliases", e.target, c.aliases?.join(", ") ?? "")} />
+                </td>
+                <td className="p-1.5 min-w-32">
+                  <Input key={c.decks?.join(", ")} defaultValue={c.decks?.join(", ")} placeholder="未分類" className="h-8" onBlur={e => edit(c, "decks", e.target, c.decks?.join(", ") ?? "")} />
+                </td>
+                <td className="p-1.5">
+                  <div className="flex gap-1">
+                    <Input key={c.tolerance?.pct} defaultValue={c.tolerance?.pct ?? ""} placeholder="%" inputMode="decimal" className="h-8 w-16" onBlur={e => edit(c, "TOL_PCT", e.target, String(c.tolerance?.pct ?? ""))} />
+                    <Input key={c.tolerance?.minYen} defaultValue={c.tolerance?.minYen ?? ""} placeholder="円" inputMode="numeric" className="h-8 w-24" onBlur={e => edit(c, "TOL_YEN", e.target, String(c.tolerance?.minYen ?? ""))} />
+                  </div>
+                </td>
+                <td className="p-1.5"><Switch checked={c.active !== false} onCheckedChange={v => update([c], { active: v }, `「${c.name}」の出題${v ? "オン" : "オフ"}`)} /></td>
+                <td className="p-1.5 whitespace-nowrap">
+                  <Button size="sm" variant="ghost" onClick={() => create({ ...c, id: undefined, prices: undefined, name: `${c.name}（コピー）` }, `「${c.name}」の複製`)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => confirm(`「${c.name}」を削除しますか？`) && remove([c], `「${c.name}」の削除`)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {!rows.length && <tr><td colSpan={15} className="p-3 text-center text-gray-500">該当するカードがありません</td></tr>}
+          </tbody>
+        </table>
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={current === 0} onClick={() => setPage(current - 1)}>前へ</Button>
+          <span>{current + 1} / {pages}</span>
+          <Button size="sm" variant="outline" disabled={current >= pages - 1} onClick={() => setPage(current + 1)}>次へ</Button>
+        </div>
+      )}
+
+      <Label>カードを追加</Label>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="名前" className="md:col-span-2" />
+        <Input value={draft.set} onChange={e => setDraft({ ...draft, set: e.target.value })} placeholder="セット" className="md:col-span-2" />
+        <Input value={draft.number} onChange={e => setDraft({ ...draft, number: e.target.value })} placeholder="番号" />
+        <Input value={draft.language} onChange={e => setDraft({ ...draft, language: e.target.value })} placeholder="言語" />
+        <Input value={draft.rarity} onChange={e => setDraft({ ...draft, rarity: e.target.value })} placeholder="レアリティ" />
+        <GraderSelect value={draft.grader} onChange={grader => setDraft({ ...draft, grader })} className="w-full" />
+        <Input value={draft.grade} disabled={draft.grader === "RAW"} onChange={e => setDraft({ ...draft, grade: e.target.value })} inputMode="decimal" placeholder="グレード" />
+        <Input value={draft.price} onChange={e => setDraft({ ...draft, price: e.target.value })} inputMode="numeric" placeholder="価格" />
+        <Input value={draft.img} onChange={e => setDraft({ ...draft, img: e.target.value })} placeholder="画像URL" className="md:col-span-2" />
+        <Input value={draft.aliases} onChange={e => setDraft({ ...draft, aliases: e.target.value })} placeholder="別名（カンマ区切り）" className="col-span-2" />
+        <Input value={draft.decks} onChange={e => setDraft({ ...draft, decks: e.target.value })} placeholder="デッキ（カンマ区切り）" className="col-span-2" />
+        <Button variant="outline" className="col-span-2" onClick={addDraft}><Plus className="h-4 w-4 mr-2" />追加</Button>
+      </div>
+    </div>
+  );
+}
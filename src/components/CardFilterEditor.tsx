@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TCard, TCardFilter } from "@/lib/types";
+import { GRADERS, GRADE_STEPS, deckNames, matchesFilter, metaValues, parsePrice } from "@/lib/quiz";
+
+const ANY = "any";
+const CHANGED_DAYS = [7, 30, 90];
+
+// 複数選択のトグル（何も選ばなければ「すべて」）
+function Chips<T extends string>({ label, options, selected, onChange, format = String }: {
+  label: string;
+  options: T[];
+  selected: T[];
+  onChange: (next: T[]) => void;
+  format?: (v: T) => string;
+}) {
+  if (!options.length) return null;
+  const toggle = (v: T) => onChange(selected.includes(v) ? selected.filter(x => x !== v) : [...selected, v]);
+  return (
+    <div className="grid gap-1">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-1">
+        <Button size="sm" variant={selected.length ? "outline" : "secondary"} onClick={() => onChange([])}>すべて</Button>
+        {options.map(v => (
+          <Button key={v} size="sm" variant={selected.includes(v) ? "secondary" : "outline"} onClick={() => toggle(v)}>{format(v)}</Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// 入力中は保存せず、フォーカスが外れたときに反映（空欄 = 指定なし）
+function PriceInput({ value, placeholder, onChange }: { value: number | null; placeholder: string; onChange: (v: number | null) => void }) {
+  return (
+    <Input
+      key={value ?? ""} defaultValue={value ?? ""} inputMode="numeric" placeholder={placeholder} className="w-32"
+      onBlur={e => {
+        const t = e.target.value.trim();
+        const v = t ? parsePrice(t) : null;
+        if (v != null && !(v >= 0)) { e.target.value = value == null ? "" : String(value); return; }
+        if (v !== value) onChange(v);
+      }}
+    />
+  );
+}
+
+function GradeSelect({ value, onChange }: { value: number | null; onChange: (v: number | null) => void }) {
+  return (
+    <Select value={value == null ? ANY : String(value)} onValueChange={v => onChange(v === ANY ? null : Number(v))}>
+      <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>指定なし</SelectItem>
+        {GRADE_STEPS.map(g => <SelectItem key={g} value={String(g)}>{g}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/* 出題対象の絞り込み（鑑定会社・グレード範囲・価格帯・セット・言語・レアリティ・デッキ・最近の相場変動） */
+export function CardFilterEditor({ cards, value, onChange }: {
+  cards: TCard[];
+  value: TCardFilter;
+  onChange: (next: TCardFilter) => void;
+}) {
+  const set = (patch: Partial<TCardFilter>) => onChange({ ...value, ...patch });
+  const count = cards.filter(c => matchesFilter(c, value)).length;
+
+  return (
+    <div className="grid gap-3">
+      <Chips label="鑑定会社" options={GRADERS} selected={value.graders} onChange={graders => set({ graders })} format={g => (g === "RAW" ? "未鑑定" : g)} />
+      <div className="grid gap-1">
+        <Label>グレード</Label>
+        <div className="flex items-center gap-2">
+          <GradeSelect value={value.minGrade} onChange={minGrade => set({ minGrade, maxGrade: minGrade != null && value.maxGrade != null && value.maxGrade < minGrade ? minGrade : value.maxGrade })} />
+          <span>〜</span>
+          <GradeSelect value={value.maxGrade} onChange={maxGrade => set({ maxGrade, minGrade: maxGrade != null && value.minGrade != null && value.minGrade > maxGrade ? maxGrade : value.minGrade })} />
+        </div>
+        {(value.minGrade != null || value.maxGrade != null) && <div className="text-xs text-gray-500">グレード範囲を指定すると未鑑定のカードは出題されません</div>}
+      </div>
+      <div className="grid gap-1">
+        <Label>価格（円）</Label>
+        <div className="flex items-center gap-2">
+          <PriceInput value={value.minPrice} placeholder="下限なし" onChange={minPrice => set({ minPrice, maxPrice: minPrice != null && value.maxPrice != null && value.maxPrice < minPrice ? minPrice : value.maxPrice })} />
+          <span>〜</span>
+          <PriceInput value={value.maxPrice} placeholder="上限なし" onChange={maxPrice => set({ maxPrice, minPrice: maxPrice != null && value.minPrice != null && value.minPrice > maxPrice ? maxPrice : value.minPrice })} />
+        </div>
+      </div>
+      <Chips label="セット" options={metaValues(cards, "set")} selected={value.sets} onChange={sets => set({ sets })} />
+      <Chips label="言語" options={metaValues(cards, "language")} selected={value.languages} onChange={languages => set({ languages })} />
+      <Chips label="レアリティ" options={metaValues(cards, "rarity")} selected={value.rarities} onChange={rarities => set({ rarities })} />
+      <Chips label="デッキ" options={deckNames(cards)} selected={value.decks} onChange={decks => set({ decks })} />
+      <div className="grid gap-1">
+        <Label>最近の相場変動</Label>
+        <Select value={value.priceChangedDays == null ? ANY : String(value.priceChangedDays)} onValueChange={v => set({ priceChangedDays: v === ANY ? null : Number(v) })}>
+          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>指定なし</SelectItem>
+            {CHANGED_DAYS.map(d => <SelectItem key={d} value={String(d)}>{d} 日以内に変動したカード</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="text-sm text-gray-500">対象 {count} / {cards.length} 枚</div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { QuizAsk, TCard } from "@/lib/types";
+import { bandLabel, inBand, type Choices } from "@/lib/choices";
+import { asksName, asksPrice, norm } from "@/lib/quiz";
+
+export type Picked = { name: string | null; band: number | null };
+
+// 答え合わせ後は正解を緑、選んで外れたものを赤に
+const tone = (revealed: boolean, isAnswer: boolean, isPicked: boolean) =>
+  !revealed ? "" : isAnswer ? "border-green-600 ring-1 ring-green-600" : isPicked ? "border-red-500 ring-1 ring-red-500" : "opacity-60";
+
+/* 選択式の回答欄（名前と価格帯を 1 つずつ選ぶ。聞いていない側は出さない） */
+export function ChoicePanel({ card, choices, asked, picked, onPick, revealed }: {
+  card: TCard;
+  choices: Choices;
+  asked: QuizAsk;
+  picked: Picked;
+  onPick: (next: Picked) => void;
+  revealed: boolean;
+}) {
+  return (
+    <div className="grid gap-3">
+      {asksName(asked) && (
+        <div className="grid gap-2">
+          <Label>カード名</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {choices.names.map(name => (
+              <Button
+                key={name} variant={picked.name === name ? "secondary" : "outline"} disabled={revealed}
+                className={`h-auto min-h-12 whitespace-normal disabled:opacity-100 ${tone(revealed, norm(name) === norm(card.name), picked.name === name)}`}
+                onClick={() => onPick({ ...picked, name })}
+              >{name}</Button>
+            ))}
+          </div>
+        </div>
+      )}
+      {asksPrice(asked) && (
+        <div className="grid gap-2">
+          <Label>相場</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {choices.bands.map((b, i) => (
+              <Button
+                key={i} variant={picked.band === i ? "secondary" : "outline"} disabled={revealed}
+                className={`h-12 disabled:opacity-100 ${tone(revealed, inBand(b, card.price), picked.band === i)}`}
+                onClick={() => onPick({ ...picked, band: i })}
+              >{bandLabel(b)}</Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Image as ImageIcon, Play, RotateCcw, Undo2 } from "lucide-react";
+import type { CompareKind, TCard, TCompareResult } from "@/lib/types";
+import { COMPARE_KINDS, COMPARE_SIZES, compareCorrect, compareStreaks, pickCompareCards, priceRank } from "@/lib/compare";
+import { gradeLabel, metaLine } from "@/lib/quiz";
+import { api } from "@/lib/api";
+
+// 回答 1 件分の記録
+function toResult(userId: string, kind: CompareKind, round: TCard[], answer: string[]): TCompareResult {
+  const base = { ts: Date.now(), user: userId, kind, cardIds: round.map(c => c.id), prices: round.map(c => c.price), answer };
+  return { ...base, correct: compareCorrect(base) };
+}
+
+/* 比較クイズ：並べたカードの相場の高低を答える（出題範囲はクイズタブの絞り込みと同じ） */
+export function CompareQuiz({ cards, userId }: { cards: TCard[]; userId: string }) {
+  const [kind, setKind] = useState<CompareKind>("pick");
+  const [size, setSize] = useState(2);
+  const [round, setRound] = useState<TCard[] | null>(null);
+  const [order, setOrder] = useState<string[]>([]); // 選んだ順（rank は高い順）
+  const [revealed, setRevealed] = useState(false);
+  const [results, setResults] = useState<TCompareResult[]>([]);
+
+  useEffect(() => {
+    api.listCompareResults({ user: userId })
+      .then(setResults)
+      .catch((e: Error) => toast.error("比較クイズの履歴取得失敗: " + e.message));
+  }, [userId]);
+
+  const streak = compareStreaks(results);
+  const rate = results.length ? Math.round((results.filter(r => r.correct).length / results.length) * 100) : 0;
+
+  function next(k = kind, n = size) {
+    const picked = pickCompareCards(cards, n);
+    if (!picked) { toast(`相場の違うカードが ${n} 枚以上必要です。絞り込みを変えてください。`); return; }
+    setRound(picked); setOrder([]); setRevealed(false);
+    setKind(k); setSize(n);
+  }
+
+  function submit(answer: string[]) {
+    if (!round) return;
+    const result = toResult(userId, kind, round, answer);
+    setResults(prev => [result, ...prev]);
+    setOrder(answer); setRevealed(true);
+    api.postCompareResult(result).catch((e: Error) => toast.error("履歴の保存に失敗しました: " + e.message));
+    if (result.correct) toast.success(`正解！（${compareStreaks([result, ...results]).current} 連続）`);
+    else toast.error("不正解");
+  }
+
+  // pick は 1 枚選んだら採点。rank は全部並べたら採点（選んだカードをもう一度押すとそこから選び直し）
+  function choose(id: string) {
+    if (revealed) return;
+    if (kind === "pick") { submit([id]); return; }
+    const at = order.indexOf(id);
+    const nextOrder = at >= 0 ? order.slice(0, at) : [...order, id];
+    if (round && nextOrder.length === round.length) submit(nextOrder);
+    else setOrder(nextOrder);
+  }
+
+  const prices = round?.map(c => c.price) ?? [];
+  const top = Math.max(...prices);
+  // 答え合わせ後：pick は最高値を緑・外れを赤、rank は順位が合っているかで色分け
+  const tone = (c: TCard) => {
+    if (!revealed) return order.includes(c.id) ? "border-gray-900 ring-1 ring-gray-900" : "";
+    const ok = kind === "pick" ? c.price === top : priceRank(prices, c.price) === order.indexOf(c.id) + 1;
+    if (ok) return "border-green-600 ring-1 ring-green-600";
+    return kind === "rank" || order.includes(c.id) ? "border-red-500 ring-1 ring-red-500" : "opacity-60";
+  };
+
+  return (
+    <UICard>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+        <CardTitle>比較クイズ</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <div className="flex gap-1">
+            {COMPARE_KINDS.map(k => (
+              <Button key={k.value} size="sm" variant={kind === k.value ? "secondary" : "ghost"} onClick={() => next(k.value, size)}>{k.label}</Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {COMPARE_SIZES.map(n => (
+              <Button key={n} size="sm" variant={size === n ? "secondary" : "ghost"} onClick={() => next(kind, n)}>{n} 枚</Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">連続正解</div><div className="text-2xl font-bold">{streak.current}</div></div>
+          <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">最高記録</div><div className="text-2xl font-bold">{streak.best}</div></div>
+          <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">正答率（{results.length} 回）</div><div className="text-2xl font-bold">{rate}%</div></div>
+        </div>
+
+        {!round ? (
+          <div className="grid place-items-center gap-2 py-8">
+            <Button size="lg" onClick={() => next()}><Play className="mr-2 h-4 w-4" />はじめる</Button>
+            <div className="text-sm text-gray-500">クイズタブで選んだプリセット・デッキの範囲から出題します（対象 {cards.length} 枚）</div>
+          </div>
+        ) : (
+          <>
+            <div className="text-sm text-gray-600">
+              {kind === "pick" ? "一番相場が高いカードを選んでください。" : "相場が高い順にカードを押してください（押したカードをもう一度押すとそこから選び直し）。"}
+            </div>
+            <div className={`grid gap-3 grid-cols-2 ${round.length > 2 ? "md:grid-cols-4" : ""}`}>
+              {round.map(c => (
+                <button key={c.id} type="button" disabled={revealed} onClick={() => choose(c.id)}
+                  className={`relative text-left rounded-2xl border bg-white p-2 grid gap-2 ${tone(c)}`}>
+                  {kind === "rank" && order.includes(c.id) && (
+                    <div className="absolute top-2 left-2 z-10 h-7 w-7 rounded-full bg-gray-900 text-white grid place-items-center text-sm font-bold">{order.indexOf(c.id) + 1}</div>
+                  )}
+                  <div className="aspect-square rounded-xl border grid place-items-center overflow-hidden">
+                    {c.img ? (
+                      <img src={c.img} alt={c.name} className="object-contain w-full h-full" />
+                    ) : (
+                      <div className="text-gray-400 flex flex-col items-center"><ImageIcon className="h-8 w-8 mb-1" />画像なし</div>
+                    )}
+                  </div>
+                  <div>
+                    <div className="font-medium">{c.name}</div>
+                    <div className="text-xs text-gray-500">{[gradeLabel(c), metaLine(c)].filter(Boolean).join(" ・ ")}</div>
+                    {revealed && <div className="mt-1 font-semibold">{c.price.toLocaleString()} 円（{priceRank(prices, c.price)} 位）</div>}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              {kind === "rank" && !revealed && (
+                <Button variant="outline" disabled={!order.length} onClick={() => setOrder([])}><Undo2 className="mr-2 h-4 w-4" />並べ直す</Button>
+              )}
+              <Button variant="secondary" className="flex-1" onClick={() => next()}><RotateCcw className="mr-2 h-4 w-4" />次の問題</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </UICard>
+  );
+}
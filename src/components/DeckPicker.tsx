@@ -0,0 +1,29 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import type { TCard } from "@/lib/types";
+import { decksOf } from "@/lib/quiz";
+
+/* 出題デッキの選択（何も選ばなければ全デッキ） */
+export function DeckPicker({ cards, decks, selected, onChange }: {
+  cards: TCard[];
+  decks: string[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+}) {
+  const countOf = (d: string) => cards.filter(c => decksOf(c).includes(d)).length;
+  const toggle = (d: string) => onChange(selected.includes(d) ? selected.filter(x => x !== d) : [...selected, d]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-500">出題デッキ</span>
+      <Button size="sm" variant={selected.length ? "outline" : "secondary"} onClick={() => onChange([])}>すべて</Button>
+      {decks.map(d => (
+        <Button key={d} size="sm" variant={selected.includes(d) ? "secondary" : "outline"} onClick={() => toggle(d)}>
+          {d} <span className="text-gray-500 ml-1">{countOf(d)}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { FileText, Plus, Trash2 } from "lucide-react";
+import type { TCard, TExam, TExamAttempt, TUser } from "@/lib/types";
+import { gradeLabel, norm } from "@/lib/quiz";
+import { api } from "@/lib/api";
+import { ExamReport } from "@/components/ExamReport";
+
+type Draft = {
+  title: string;
+  questionCount: string;
+  perQuestionSec: string;
+  totalSec: string;
+  tolPct: string;
+  strictName: "default" | "strict" | "loose";
+  cardIds: string[];
+};
+
+const emptyDraft: Draft = { title: "", questionCount: "10", perQuestionSec: "", totalSec: "", tolPct: "", strictName: "default", cardIds: [] };
+
+/* 試験の作成・公開・レポート閲覧（管理者） */
+export function ExamAdmin({ cards }: { cards: TCard[] }) {
+  const [exams, setExams] = useState<TExam[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [cardQuery, setCardQuery] = useState("");
+  const [reports, setReports] = useState<{ exam: TExam; attempts: TExamAttempt[]; users: TUser[] } | null>(null);
+
+  useEffect(() => {
+    api.listExams().then(setExams).catch((e: Error) => toast.error("試験一覧の取得失敗: " + e.message));
+  }, []);
+
+  const shownCards = useMemo(() => {
+    const q = norm(cardQuery);
+    return q ? cards.filter(c => norm(c.name).includes(q)) : cards;
+  }, [cards, cardQuery]);
+
+  function toggleCard(id: string) {
+    setDraft(d => ({ ...d, cardIds: d.cardIds.includes(id) ? d.cardIds.filter(x => x !== id) : [...d.cardIds, id] }));
+  }
+
+  async function create() {
+    try {
+      const exam = await api.createExam({
+        title: draft.title,
+        questionCount: Number(draft.questionCount),
+        perQuestionSec: Number(draft.perQuestionSec) || undefined,
+        totalSec: Number(draft.totalSec) ? Number(draft.totalSec) * 60 : undefined,
+        tolPct: Number(draft.tolPct) || undefined,
+        strictName: draft.strictName === "default" ? undefined : draft.strictName === "strict",
+        cardIds: draft.cardIds,
+        active: true,
+      });
+      setExams(prev => [...prev, exam]);
+      setDraft(emptyDraft);
+      toast.success(`試験「${exam.title}」を作成しました`);
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function setActive(exam: TExam, active: boolean) {
+    try {
+      const next = await api.updateExam(exam.id, { active });
+      setExams(prev => prev.map(x => (x.id === exam.id ? next : x)));
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function remove(exam: TExam) {
+    if (!confirm(`試験「${exam.title}」を削除します。受験結果は履歴に残ります。よろしいですか？`)) return;
+    try {
+      await api.deleteExam(exam.id);
+      setExams(prev => prev.filter(x => x.id !== exam.id));
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function openReports(exam: TExam) {
+    try {
+      const [attempts, users] = await Promise.all([api.examAttempts(exam.id), api.listUsers()]);
+      setReports({ exam, attempts, users });
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  return (
+    <div className="grid gap-3">
+      <Label>試験</Label>
+      <div className="grid gap-2">
+        {exams.map(e => (
+          <div key={e.id} className="text-sm p-2 rounded-lg border bg-white flex items-center justify-between gap-2">
+            <div className="truncate">
+              {e.title} <span className="text-gray-500">（{e.questionCount} 問{e.cardIds.length ? ` / 対象 ${e.cardIds.length} 枚` : ""}）</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={e.active} onCheckedChange={v => setActive(e, v)} />
+              <Button size="sm" variant="ghost" onClick={() => openReports(e)}><FileText className="h-4 w-4" /></Button>
+              <Button size="sm" variant="ghost" onClick={() => remove(e)}><Trash2 className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {reports && (
+        <div className="grid gap-3 p-3 rounded-xl border bg-gray-50">
+          <div className="flex items-center justify-between">
+            <div className="font-medium">{reports.exam.title} のレポート（{reports.attempts.filter(a => a.finishedAt).length} 名受験済み）</div>
+            <Button size="sm" variant="ghost" onClick={() => setReports(null)}>閉じる</Button>
+          </div>
+          {reports.attempts.map(a => (
+            <ExamReport key={a.id} attempt={a} userName={reports.users.find(u => u.id === a.user)?.displayName ?? a.user} />
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-2 p-3 rounded-xl border bg-white">
+        <Input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} placeholder="試験名" />
+        <div className="grid grid-cols-2 gap-2">
+          <Input value={draft.questionCount} onChange={e => setDraft({ ...draft, questionCount: e.target.value })} inputMode="numeric" placeholder="問題数" />
+          <Input value={draft.tolPct} onChange={e => setDraft({ ...draft, tolPct: e.target.value })} inputMode="numeric" placeholder="許容誤差%（空=全体設定）" />
+          <Input value={draft.perQuestionSec} onChange={e => setDraft({ ...draft, perQuestionSec: e.target.value })} inputMode="numeric" placeholder="1問の制限（秒）" />
+          <Input value={draft.totalSec} onChange={e => setDraft({ ...draft, totalSec: e.target.value })} inputMode="numeric" placeholder="全体の制限（分）" />
+        </div>
+        <Select value={draft.strictName} onValueChange={v => setDraft({ ...draft, strictName: v as Draft["strictName"] })}>
+          <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">名前の判定：全体設定に従う</SelectItem>
+            <SelectItem value="strict">名前の判定：厳格（表記ゆれのみ許容）</SelectItem>
+            <SelectItem value="loose">名前の判定：打ち間違いも許容</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="text-sm text-gray-500">出題カード（未選択なら有効な全カード） {draft.cardIds.length ? `${draft.cardIds.length} 枚選択中` : ""}</div>
+        <Input value={cardQuery} onChange={e => setCardQuery(e.target.value)} placeholder="カード名で絞り込み" className="h-8" />
+        <div className="max-h-40 overflow-y-auto grid gap-1">
+          {shownCards.map(c => (
+            <label key={c.id} className="text-sm flex items-center gap-2">
+              <input type="checkbox" checked={draft.cardIds.includes(c.id)} onChange={() => toggleCard(c.id)} />
+              {c.name} <span className="text-gray-500">{c.set ? `${c.set} / ` : ""}{gradeLabel(c)} / {c.price.toLocaleString()}円</span>
+            </label>
+          ))}
+        </div>
+        <Button variant="outline" onClick={create}><Plus className="h-4 w-4 mr-2" />試験を作成</Button>
+      </div>
+    </div>
+  );
+}
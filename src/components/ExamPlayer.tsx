@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { ArrowLeft, Check, Clock, Image as ImageIcon, Play } from "lucide-react";
+import type { TExamListItem, TExamState } from "@/lib/types";
+import { fmtDuration } from "@/lib/exam";
+import { norm, toHalf } from "@/lib/quiz";
+import { ExamReport } from "@/components/ExamReport";
+import { api } from "@/lib/api";
+
+const STATUS_LABEL = { none: "未受験", in_progress: "受験中", done: "受験済み" } as const;
+
+/* 試験モード（プレイヤー）：一覧 → 受験 → レポート */
+export function ExamPlayer({ onFinished }: { onFinished?: () => void }) {
+  const [exams, setExams] = useState<TExamListItem[]>([]);
+  const [state, setState] = useState<TExamState | null>(null);
+  const [ansName, setAnsName] = useState("");
+  const [ansPrice, setAnsPrice] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+  const sending = useRef(false);
+  const timedOutAt = useRef<string | null>(null);
+  const nameRef = useRef<HTMLInputElement | null>(null);
+
+  function reload() {
+    api.listExams().then(setExams).catch((e: Error) => toast.error("試験一覧の取得失敗: " + e.message));
+  }
+  useEffect(reload, []);
+
+  // 残り時間表示用
+  useEffect(() => {
+    if (!state || state.progress.finished) return;
+    const t = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(t);
+  }, [state]);
+
+  async function open(id: string, start: boolean) {
+    try {
+      const s = start ? await api.startExam(id) : await api.examState(id);
+      setState(s); setAnsName(""); setAnsPrice("");
+      setTimeout(() => nameRef.current?.focus?.(), 60);
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function submit(timeout = false) {
+    if (!state || state.progress.finished || sending.current) return;
+    if (!timeout && (!norm(ansName) || !toHalf(ansPrice).trim())) { toast("名前と価格を入力してください"); return; }
+    sending.current = true;
+    try {
+      const { examId, index } = state.progress;
+      const next = await api.answerExam(examId, index, timeout ? "" : ansName, timeout ? "" : ansPrice);
+      setState(next); setAnsName(""); setAnsPrice("");
+      if (next.progress.finished) { toast.success("試験が終了しました"); reload(); onFinished?.(); }
+      else setTimeout(() => nameRef.current?.focus?.(), 60);
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      sending.current = false;
+    }
+  }
+
+  const p = state?.progress;
+  const deadline = p && !p.finished ? Math.min(p.questionDeadline ?? Infinity, p.examDeadline ?? Infinity) : Infinity;
+  const remaining = deadline - now;
+
+  // 制限時間が来たら空回答で次へ（サーバー側でも時間切れとして判定される）
+  useEffect(() => {
+    if (!p || !Number.isFinite(deadline) || remaining > 0) return;
+    const key = `${p.attemptId}:${p.index}`;
+    if (timedOutAt.current === key) return; // 1 問につき 1 回だけ
+    timedOutAt.current = key;
+    submit(true);
+  });
+
+  if (!state || !p) {
+    return (
+      <UICard>
+        <CardHeader><CardTitle>試験</CardTitle></CardHeader>
+        <CardContent className="grid gap-2">
+          {!exams.length && <div className="text-sm text-gray-500">受験できる試験はありません。</div>}
+          {exams.map(e => (
+            <div key={e.id} className="p-3 rounded-xl border bg-white flex items-center justify-between gap-3">
+              <div>
+                <div className="font-medium">{e.title}</div>
+                <div className="text-sm text-gray-500">
+                  {e.questionCount} 問
+                  {e.perQuestionSec ? ` / 1問 ${e.perQuestionSec} 秒` : ""}
+                  {e.totalSec ? ` / 全体 ${fmtDuration(e.totalSec * 1000)}` : ""}
+                  {" ・ "}{STATUS_LABEL[e.status]}
+                </div>
+              </div>
+              {e.status === "done"
+                ? <Button variant="outline" onClick={() => open(e.id, false)}>結果を見る</Button>
+                : <Button onClick={() => (e.status === "in_progress" || confirm("試験は 1 回のみ受験できます。開始しますか？")) && open(e.id, true)}>
+                    <Play className="h-4 w-4 mr-2" />{e.status === "in_progress" ? "再開" : "開始"}
+                  </Button>}
+            </div>
+          ))}
+        </CardContent>
+      </UICard>
+    );
+  }
+
+  return (
+    <UICard>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{p.title}{p.finished ? "（結果）" : `（${p.index + 1} / ${p.total}）`}</CardTitle>
+        {p.finished && <Button variant="ghost" onClick={() => setState(null)}><ArrowLeft className="h-4 w-4 mr-2" />一覧へ</Button>}
+      </CardHeader>
+      <CardContent>
+        {p.finished && state.report ? (
+          <ExamReport attempt={state.report} />
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="aspect-square bg-white rounded-2xl border grid place-items-center overflow-hidden">
+              {p.img ? (
+                <img src={p.img} alt={`問題 ${p.index + 1}`} className="object-contain w-full h-full" />
+              ) : (
+                <div className="text-gray-400 flex flex-col items-center"><ImageIcon className="h-10 w-10 mb-2" />画像なし</div>
+              )}
+            </div>
+            <div className="grid gap-3 content-start">
+              {Number.isFinite(deadline) && (
+                <div className={`flex items-center gap-2 font-semibold ${remaining < 10_000 ? "text-red-600" : ""}`}>
+                  <Clock className="h-4 w-4" />残り {fmtDuration(remaining)}
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label>カード名</Label>
+                <Input ref={nameRef} value={ansName} onChange={e => setAnsName(e.target.value)} className="h-12 text-lg" />
+              </div>
+              <div className="grid gap-2">
+                <Label>相場（円）</Label>
+                <Input value={ansPrice} onChange={e => setAnsPrice(e.target.value)} inputMode="numeric" className="h-12 text-lg"
+                  onKeyDown={e => { if (e.key === "Enter") { e.preventDefault(); submit(); } }} />
+              </div>
+              <Button size="lg" onClick={() => submit()}><Check className="mr-2 h-4 w-4" />回答して次へ</Button>
+              <div className="text-xs text-gray-500">試験中は正解は表示されません。終了後にレポートで確認できます。</div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </UICard>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import type { TExamAttempt } from "@/lib/types";
+import { fmtDuration, summarizeAttempt } from "@/lib/exam";
+
+/* 試験の結果レポート（受験者本人・管理者共通） */
+export function ExamReport({ attempt, userName }: { attempt: TExamAttempt; userName?: string }) {
+  const s = summarizeAttempt(attempt);
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-4 gap-3 text-center">
+        {userName != null && <div className="col-span-4 text-left font-medium">{userName}</div>}
+        <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">得点</div><div className="text-2xl font-bold">{s.score}</div></div>
+        <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">正解</div><div className="text-2xl font-bold">{s.correct}/{s.total}</div></div>
+        <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">所要時間</div><div className="text-lg font-bold">{fmtDuration(s.durationMs)}</div></div>
+        <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">受験日</div><div className="text-sm font-bold">{new Date(attempt.startedAt).toLocaleDateString()}</div></div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="p-2 text-left">#</th>
+              <th className="p-2 text-left">カード</th>
+              <th className="p-2 text-left">正解相場</th>
+              <th className="p-2 text-left">回答</th>
+              <th className="p-2 text-left">判定</th>
+              <th className="p-2 text-left">得点</th>
+              <th className="p-2 text-left">時間</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attempt.answers.map((r, i) => (
+              <tr key={i} className="border-b">
+                <td className="p-2">{i + 1}</td>
+                <td className="p-2 whitespace-nowrap">{r.correctName}</td>
+                <td className="p-2 whitespace-nowrap">{r.correctPrice.toLocaleString()} 円</td>
+                <td className="p-2 whitespace-nowrap">{r.timedOut ? "時間切れ" : `${r.answeredName} / ${r.answeredPrice.toLocaleString()} 円`}</td>
+                <td className="p-2 whitespace-nowrap">{r.correct ? "✅" : "❌"}（名:{r.nameOk ? "○" : "×"} 価:{r.priceOk ? "○" : "×"}）</td>
+                <td className="p-2 whitespace-nowrap">{r.score ?? 0}</td>
+                <td className="p-2 whitespace-nowrap">{fmtDuration(r.elapsedMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
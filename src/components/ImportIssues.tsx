@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+import * as Papa from "papaparse";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import type { CardRow } from "@/lib/quiz";
+import { isRowObject, rejectedRows, type RowIssue } from "@/lib/importPlan";
+import { downloadText } from "@/lib/download";
+
+// 直しやすいよう元の列をそのまま残し、末尾に ERRORS 列を付ける
+function downloadRejected(rows: CardRow[], issues: RowIssue[]) {
+  const bad = [...rejectedRows(issues)].sort((a, b) => a - b);
+  const cols = (row: unknown) => (isRowObject(row) ? row : {});
+  const columns = [...new Set(bad.flatMap(i => Object.keys(cols(rows[i]))))];
+  const csv = Papa.unparse({
+    fields: [...columns, "ERRORS"],
+    data: bad.map(i => [
+      ...columns.map(k => cols(rows[i])[k] ?? ""),
+      issues.filter(x => x.row === i && x.level === "error").map(x => x.message).join(" / "),
+    ]),
+  });
+  downloadText(csv, `rejected_rows_${Date.now()}.csv`);
+}
+
+/* インポート行の検証結果（エラー行は取り込まれない） */
+export function ImportIssues({ rows, issues }: { rows: CardRow[]; issues: RowIssue[] }) {
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const rejected = rejectedRows(issues);
+  const warned = new Set(issues.filter(x => x.level === "warning").map(x => x.row));
+  const shown = issues.filter(x => !errorsOnly || x.level === "error");
+
+  if (!issues.length) return <div className="text-sm text-green-700">全 {rows.length} 行に問題はありません</div>;
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div>
+          全 {rows.length} 行 ・ <span className="text-red-700">取り込まない {rejected.size} 行</span>
+          {" ・ "}<span className="text-amber-700">警告 {[...warned].filter(i => !rejected.has(i)).length} 行</span>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant={errorsOnly ? "secondary" : "outline"} onClick={() => setErrorsOnly(!errorsOnly)}>エラーのみ</Button>
+          {rejected.size > 0 && <Button size="sm" variant="outline" onClick={() => downloadRejected(rows, issues)}><Download className="h-4 w-4 mr-2" />エラー行をCSVで保存</Button>}
+        </div>
+      </div>
+      <div className="max-h-56 overflow-y-auto rounded-lg border bg-white">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr><th className="p-1.5 text-left" title="見出し行と空行を除いて数えた何件目のデータか">データ行</th><th className="p-1.5 text-left">区分</th><th className="p-1.5 text-left">列</th><th className="p-1.5 text-left">内容</th></tr>
+          </thead>
+          <tbody>
+            {shown.map((x, i) => (
+              <tr key={i} className="border-t">
+                <td className="p-1.5">{x.row + 1}</td>
+                <td className={`p-1.5 ${x.level === "error" ? "text-red-700" : "text-amber-700"}`}>{x.level === "error" ? "エラー" : "警告"}</td>
+                <td className="p-1.5">{x.field}</td>
+                <td className="p-1.5 break-all">{x.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
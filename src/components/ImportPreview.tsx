@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Check, X } from "lucide-react";
+import type { TCard, TTolerance } from "@/lib/types";
+import { gradeLabel, toleranceLabel, type CardRow } from "@/lib/quiz";
+import type { DiffField, ImportPlan } from "@/lib/importPlan";
+import { ImportIssues } from "@/components/ImportIssues";
+
+const FIELD_LABEL: Record<DiffField, string> = {
+  name: "名前", set: "セット", number: "番号", language: "言語", rarity: "レアリティ", grader: "鑑定", grade: "グレード", price: "価格", img: "画像", active: "出題", aliases: "別名", decks: "デッキ", tolerance: "許容誤差",
+};
+
+function fmt(field: DiffField, v: unknown) {
+  if (v === undefined || v === null || v === "") return "（なし）";
+  if (field === "price" && typeof v === "number") return `${v.toLocaleString()}円`;
+  if (field === "active") return v === false ? "オフ" : "オン";
+  if (field === "tolerance") return toleranceLabel(v as TTolerance);
+  if (Array.isArray(v)) return v.join(", ") || "（なし）";
+  return String(v);
+}
+
+type Section = Exclude<keyof ImportPlan, "issues">;
+
+const cardLine = (c: TCard) => `${c.name}${c.set ? ` [${c.set}]` : ""}（${gradeLabel(c)} / ${c.price.toLocaleString()}円）`;
+
+/* インポート前の差分プレビュー（追加・更新・変更なし・ファイルに無い） */
+export function ImportPreview({ rows, plan, onApply, onCancel }: {
+  rows: CardRow[];
+  plan: ImportPlan;
+  onApply: (removeMissing: boolean) => void;
+  onCancel: () => void;
+}) {
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [open, setOpen] = useState<Section | null>("updated");
+  const accepted = plan.added.length + plan.updated.length + plan.unchanged.length;
+
+  const sections: { key: Section; label: string; tone: string }[] = [
+    { key: "added", label: "追加", tone: "text-green-700" },
+    { key: "updated", label: "更新", tone: "text-blue-700" },
+    { key: "removed", label: "ファイルに無い", tone: "text-red-700" },
+    { key: "unchanged", label: "変更なし", tone: "text-gray-500" },
+  ];
+
+  return (
+    <div className="grid gap-3 p-3 rounded-xl border bg-gray-50">
+      <div className="font-medium">インポートのプレビュー</div>
+      <ImportIssues rows={rows} issues={plan.issues} />
+      <div className="flex flex-wrap gap-2">
+        {sections.map(s => (
+          <Button key={s.key} size="sm" variant={open === s.key ? "secondary" : "outline"} onClick={() => setOpen(open === s.key ? null : s.key)}>
+            <span className={s.tone}>{s.label} {plan[s.key].length}</span>
+          </Button>
+        ))}
+      </div>
+
+      {open && (
+        <div className="max-h-64 overflow-y-auto grid gap-1 text-sm">
+          {!plan[open].length && <div className="text-gray-500">該当なし</div>}
+          {open === "updated"
+            ? plan.updated.map(u => (
+                <div key={u.before.id} className="p-2 rounded-lg border bg-white">
+                  <div className="font-medium">{u.before.name}</div>
+                  {u.changes.map(d => (
+                    <div key={d.field} className="text-xs text-gray-600 break-all">
+                      {FIELD_LABEL[d.field]}: <span className="line-through">{fmt(d.field, d.before)}</span> → <b>{fmt(d.field, d.after)}</b>
+                    </div>
+                  ))}
+                </div>
+              ))
+            : plan[open].map(c => <div key={c.id} className="px-2">{cardLine(c)}</div>)}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-medium">ファイルに無いカードを削除する</div>
+          <div className="text-xs text-gray-500">オフ：既存カードは残してマージ（履歴・復習スケジュールは引き継がれます）</div>
+        </div>
+        <Switch checked={removeMissing} onCheckedChange={setRemoveMissing} />
+      </div>
+      <div className="flex gap-2">
+        <Button disabled={!accepted} onClick={() => onApply(removeMissing)}><Check className="h-4 w-4 mr-2" />適用</Button>
+        <Button variant="ghost" onClick={onCancel}><X className="h-4 w-4 mr-2" />キャンセル</Button>
+      </div>
+    </div>
+  );
+}
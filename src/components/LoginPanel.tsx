@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { LogIn } from "lucide-react";
+import type { TUser, TUserEntry } from "@/lib/types";
+import { api } from "@/lib/api";
+
+/* ログイン（ユーザーを選んでパスワード） / 初回の管理者登録 */
+export function LoginPanel({ needsSetup, onLogin }: { needsSetup: boolean; onLogin: (u: TUser) => void }) {
+  const [directory, setDirectory] = useState<TUserEntry[]>([]);
+  const [userId, setUserId] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (needsSetup) return;
+    api.directory().then(setDirectory).catch((e: Error) => toast.error("ユーザー一覧の取得失敗: " + e.message));
+  }, [needsSetup]);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!needsSetup && !userId) { toast("ユーザーを選択してください"); return; }
+    setBusy(true);
+    try {
+      const u = needsSetup ? await api.setup(name, password) : await api.login(userId, password);
+      toast.success(`${u.displayName} としてログインしました`);
+      onLogin(u);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <UICard className="max-w-md w-full mx-auto">
+      <CardHeader><CardTitle>{needsSetup ? "初期管理者の登録" : "ログイン"}</CardTitle></CardHeader>
+      <CardContent>
+        <form className="grid gap-4" onSubmit={submit}>
+          {needsSetup ? (
+            <>
+              <div className="text-sm text-gray-600">アカウントがまだありません。最初の管理者アカウントを作成してください。</div>
+              <div className="grid gap-2">
+                <Label>ログイン ID</Label>
+                <Input value={name} onChange={e => setName(e.target.value)} autoComplete="username" />
+              </div>
+            </>
+          ) : (
+            <div className="grid gap-2">
+              <Label>ユーザー</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger className="w-full"><SelectValue placeholder="選択してください" /></SelectTrigger>
+                <SelectContent>
+                  {directory.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.displayName}{u.department ? `（${u.department}）` : ""}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label>パスワード</Label>
+            <Input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete={needsSetup ? "new-password" : "current-password"} />
+          </div>
+          <Button type="submit" disabled={busy}><LogIn className="h-4 w-4 mr-2" />{needsSetup ? "登録してログイン" : "ログイン"}</Button>
+        </form>
+      </CardContent>
+    </UICard>
+  );
+}
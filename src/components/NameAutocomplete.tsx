@@ -0,0 +1,76 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { suggestNames } from "@/lib/nameMatch";
+
+/* カード名の入力欄（入力候補つき）
+ * ↑↓ で候補を選び Enter / Tab で確定、Esc で閉じる。候補を選んでいないときの Enter / Ctrl+Enter は
+ * そのまま画面のショートカット（採点 / 次の問題）に渡す。
+ */
+export function NameAutocomplete({ value, onChange, options, enabled, inputRef, onPicked, placeholder, className }: {
+  value: string;
+  onChange: (v: string) => void;
+  options: string[];           // カード名と別名
+  enabled: boolean;
+  inputRef?: React.Ref<HTMLInputElement>;
+  onPicked?: () => void;       // 候補を確定したあと（価格欄へ移る用）
+  placeholder?: string;
+  className?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  const hits = useMemo(() => (enabled ? suggestNames(value, options) : []), [enabled, value, options]);
+  // 入力済みの名前そのものしか候補が無ければ出さない
+  const shown = open && hits.length > 0 && !(hits.length === 1 && hits[0] === value);
+
+  function pick(name: string) {
+    onChange(name);
+    setOpen(false); setActive(-1);
+    onPicked?.();
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.nativeEvent.isComposing) return;
+    if (!shown) {
+      if (e.key === "ArrowDown" && hits.length) { e.preventDefault(); setOpen(true); }
+      return;
+    }
+    const accept = (e.key === "Enter" && !e.ctrlKey) || e.key === "Tab";
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      // 「どれも選ばない」（-1）も含めて一周する
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive(i => ((i + 1 + step + hits.length + 1) % (hits.length + 1)) - 1);
+    } else if (accept && active >= 0 && active < hits.length) {
+      e.preventDefault(); e.stopPropagation();
+      pick(hits[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false); setActive(-1);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        ref={inputRef} value={value} placeholder={placeholder} className={className}
+        role="combobox" aria-expanded={shown} aria-autocomplete="list" autoComplete="off"
+        onChange={e => { onChange(e.target.value); setOpen(true); setActive(-1); }}
+        onKeyDown={onKeyDown}
+        onBlur={() => setOpen(false)}
+      />
+      {shown && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-white shadow-md">
+          {hits.map((name, i) => (
+            <li
+              key={name} role="option" aria-selected={i === active}
+              className={`px-3 py-2 cursor-pointer ${i === active ? "bg-gray-100" : ""}`}
+              onMouseDown={e => { e.preventDefault(); pick(name); }}
+              onMouseEnter={() => setActive(i)}
+            >{name}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
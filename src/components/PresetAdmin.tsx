@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import type { HistoryFilter, TCard, TCardFilter, TPreset } from "@/lib/types";
+import { HISTORY_FILTERS, describePreset, emptyCardFilter } from "@/lib/quiz";
+import { api } from "@/lib/api";
+import { CardFilterEditor } from "@/components/CardFilterEditor";
+
+type Draft = { id?: string; name: string; filter: TCardFilter; history: HistoryFilter };
+
+const emptyDraft: Draft = { name: "", filter: emptyCardFilter, history: "all" };
+
+/* 出題プリセットの作成・編集（管理者）。プレイヤーはクイズ画面で選ぶ */
+export function PresetAdmin({ cards, presets, setPresets }: {
+  cards: TCard[];
+  presets: TPreset[];
+  setPresets: React.Dispatch<React.SetStateAction<TPreset[]>>;
+}) {
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  async function save() {
+    const { id, ...input } = draft;
+    try {
+      const preset = id ? await api.updatePreset(id, input) : await api.createPreset(input);
+      setPresets(prev => (id ? prev.map(p => (p.id === id ? preset : p)) : [...prev, preset]));
+      setDraft(emptyDraft);
+      toast.success(`プリセット「${preset.name}」を保存しました`);
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function remove(p: TPreset) {
+    if (!confirm(`プリセット「${p.name}」を削除しますか？`)) return;
+    try {
+      await api.deletePreset(p.id);
+      setPresets(prev => prev.filter(x => x.id !== p.id));
+      if (draft.id === p.id) setDraft(emptyDraft);
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid gap-2">
+        {presets.map(p => (
+          <div key={p.id} className="text-sm p-2 rounded-lg border bg-white flex items-center justify-between gap-2">
+            <div className="truncate">
+              {p.name}
+              <span className="text-gray-500 ml-2">
+                {describePreset(p).join(" ・ ") || "条件なし"}
+              </span>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant="ghost" onClick={() => setDraft({ ...p })}><Pencil className="h-4 w-4" /></Button>
+              <Button size="sm" variant="ghost" onClick={() => remove(p)}><Trash2 className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        ))}
+        {!presets.length && <div className="text-sm text-gray-500">プリセットはまだありません</div>}
+      </div>
+
+      <div className="grid gap-3 p-3 rounded-xl border bg-white">
+        <div className="font-medium">{draft.id ? "プリセットを編集" : "プリセットを作成"}</div>
+        <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="プリセット名（例：5万円以上のPSA10）" />
+        <CardFilterEditor cards={cards} value={draft.filter} onChange={filter => setDraft({ ...draft, filter })} />
+        <div className="grid gap-1">
+          <Label>回答履歴（プレイヤーごと）</Label>
+          <Select value={draft.history} onValueChange={v => setDraft({ ...draft, history: v as HistoryFilter })}>
+            <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {HISTORY_FILTERS.map(h => <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={save}><Plus className="h-4 w-4 mr-2" />{draft.id ? "保存" : "作成"}</Button>
+          {draft.id && <Button variant="ghost" onClick={() => setDraft(emptyDraft)}>キャンセル</Button>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TPreset } from "@/lib/types";
+import { describePreset } from "@/lib/quiz";
+
+const NONE = "none";
+
+/* クイズ画面で出題プリセットを選ぶ（null = 使わない） */
+export function PresetPicker({ presets, selected, onChange }: {
+  presets: TPreset[];
+  selected: TPreset | null;
+  onChange: (id: string | null) => void;
+}) {
+  const detail = selected ? describePreset(selected) : [];
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-500">出題プリセット</span>
+      <Select value={selected?.id ?? NONE} onValueChange={v => onChange(v === NONE ? null : v)}>
+        <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>使わない</SelectItem>
+          {presets.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      {detail.length > 0 && <span className="text-xs text-gray-500">{detail.join(" ・ ")}</span>}
+    </div>
+  );
+}
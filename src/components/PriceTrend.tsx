@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import type { TPricePoint } from "@/lib/types";
+import { gradeLabel } from "@/lib/quiz";
+
+/* 相場推移の小さな折れ線（回答後の正解パネル用） */
+export function PriceTrend({ points, width = 280, height = 64 }: { points: TPricePoint[]; width?: number; height?: number }) {
+  if (points.length < 2) return <div className="text-xs text-gray-500">相場履歴はまだ 1 件のみです</div>;
+
+  const pad = 6;
+  const prices = points.map(p => p.price);
+  const min = Math.min(...prices), max = Math.max(...prices);
+  const x = (i: number) => pad + (i * (width - pad * 2)) / (points.length - 1);
+  const y = (v: number) => (max === min ? height / 2 : pad + ((max - v) * (height - pad * 2)) / (max - min));
+  const path = points.map((p, i) => `${i ? "L" : "M"}${x(i).toFixed(1)},${y(p.price).toFixed(1)}`).join(" ");
+  const first = points[0], last = points[points.length - 1];
+  const diffPct = first.price ? Math.round(((last.price - first.price) / first.price) * 1000) / 10 : 0;
+
+  return (
+    <div className="grid gap-1">
+      <svg width={width} height={height} className="bg-white rounded-lg border">
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-blue-600" />
+        {points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.price)} r={2.5} className="fill-blue-600">
+            <title>{`${p.date || "日付不明"} ${p.price.toLocaleString()}円 ${gradeLabel(p)}${p.source ? ` (${p.source})` : ""}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="text-xs text-gray-500 flex justify-between" style={{ width }}>
+        <span>{first.date || "以前"}</span>
+        <span className={diffPct > 0 ? "text-red-600" : diffPct < 0 ? "text-blue-600" : ""}>{diffPct > 0 ? "+" : ""}{diffPct}%</span>
+        <span>{last.date}</span>
+      </div>
+    </div>
+  );
+}
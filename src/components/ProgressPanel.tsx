@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card as UICard, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Target } from "lucide-react";
+import type { TCard, TResult } from "@/lib/types";
+import { WEAK_WINDOW, answerStreaks, bucketLabel, trendOf, weakCards, type Bucket } from "@/lib/analytics";
+import { TrendChart } from "@/components/TrendChart";
+
+const UNITS: { value: Bucket; label: string; n: number }[] = [
+  { value: "day", label: "日ごと", n: 14 },
+  { value: "week", label: "週ごと", n: 12 },
+];
+
+/* 成長（自分の回答履歴から推移・連続記録・苦手なカードを出す） */
+export function ProgressPanel({ results, cards, onPractice }: {
+  results: TResult[]; // 自分の回答（新しい順）
+  cards: TCard[]; // 出題できるカード
+  onPractice: (cardIds: string[]) => void;
+}) {
+  const [unit, setUnit] = useState<Bucket>("day");
+  const n = UNITS.find(u => u.value === unit)?.n ?? 14;
+
+  const trend = useMemo(() => trendOf(results, unit, n), [results, unit, n]);
+  const streaks = useMemo(() => answerStreaks(results), [results]);
+  const weak = useMemo(() => weakCards(results, cards), [results, cards]);
+
+  const rates = trend.map(p => ({ label: bucketLabel(p.t, unit), value: p.rate }));
+  const errors = trend.map(p => ({ label: bucketLabel(p.t, unit), value: p.avgErr }));
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <UICard>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle>成長の記録</CardTitle>
+          <div className="flex gap-1">
+            {UNITS.map(u => (
+              <Button key={u.value} size="sm" variant={unit === u.value ? "secondary" : "ghost"} onClick={() => setUnit(u.value)}>{u.label}</Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">連続正解</div><div className="text-2xl font-bold">{streaks.current}</div></div>
+            <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">最高記録</div><div className="text-2xl font-bold">{streaks.best}</div></div>
+            <div className="p-3 rounded-xl bg-white border"><div className="text-sm text-gray-500">連続学習</div><div className="text-2xl font-bold">{streaks.days} 日</div></div>
+          </div>
+          <div className="grid gap-1">
+            <div className="text-sm text-gray-500">正答率</div>
+            <TrendChart points={rates} unit="%" max={100} className="text-green-600" />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-sm text-gray-500">平均価格誤差（自由入力のみ・低いほど良い）</div>
+            <TrendChart points={errors} unit="%" />
+          </div>
+        </CardContent>
+      </UICard>
+
+      <UICard>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle>苦手なカード</CardTitle>
+          <Button size="sm" disabled={!weak.length} onClick={() => onPractice(weak.map(w => w.cardId))}>
+            <Target className="h-4 w-4 mr-1" />苦手なカードを練習
+          </Button>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          <div className="text-xs text-gray-500">カードごとの直近 {WEAK_WINDOW} 回（2 回以上答えたもの）で、まちがえた割合が高い順</div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead><tr className="bg-gray-100">
+                <th className="p-1.5 text-left">カード</th><th className="p-1.5 text-right">回答</th><th className="p-1.5 text-right">不正解率</th>
+                <th className="p-1.5 text-right">名前×</th><th className="p-1.5 text-right">価格×</th>
+              </tr></thead>
+              <tbody>
+                {weak.map(w => (
+                  <tr key={w.cardId} className="border-t">
+                    <td className="p-1.5">{w.name}</td>
+                    <td className="p-1.5 text-right">{w.total}</td>
+                    <td className="p-1.5 text-right font-medium">{w.missRate}%</td>
+                    <td className="p-1.5 text-right">{w.nameMisses}</td>
+                    <td className="p-1.5 text-right">{w.priceMisses}</td>
+                  </tr>
+                ))}
+                {!weak.length && <tr><td colSpan={5} className="p-3 text-center text-gray-500">苦手なカードはまだありません</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </UICard>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Plus, Save, Trash2 } from "lucide-react";
+import type { TToleranceRule } from "@/lib/types";
+import { isValidTolerance, parsePrice } from "@/lib/quiz";
+
+type Row = { minPrice: string; pct: string; minYen: string };
+
+const toRow = (r: TToleranceRule): Row => ({ minPrice: String(r.minPrice), pct: r.pct == null ? "" : String(r.pct), minYen: r.minYen == null ? "" : String(r.minYen) });
+
+const num = (s: string) => (s.trim() ? parsePrice(s.replace(/[%％]/g, "")) : null);
+
+/* 価格帯ごとの許容誤差（管理者）。各行は「下限価格以上」の価格に効き、±% と最低 ±円 の広い方を使う */
+export function ToleranceRulesEditor({ rules, tolPct, onSave }: {
+  rules: TToleranceRule[];
+  tolPct: number;               // どの帯にも当てはまらない価格に使う
+  onSave: (rules: TToleranceRule[]) => void;
+}) {
+  const [rows, setRows] = useState<Row[]>(() => rules.map(toRow));
+  const set = (i: number, patch: Partial<Row>) => setRows(prev => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  function save() {
+    const parsed = rows.map(r => ({ minPrice: num(r.minPrice) ?? 0, pct: num(r.pct), minYen: num(r.minYen) }));
+    const bad = parsed.findIndex(r => !(r.minPrice >= 0) || !isValidTolerance(r));
+    if (bad >= 0) { toast.error(`${bad + 1} 行目：下限価格は 0 以上、許容誤差は %（0 超 100 以下）か最低額（0 以上の円）で指定してください`); return; }
+    if (new Set(parsed.map(r => r.minPrice)).size !== parsed.length) { toast.error("同じ下限価格の行があります"); return; }
+    onSave(parsed.sort((a, b) => a.minPrice - b.minPrice));
+  }
+
+  return (
+    <div className="grid gap-2">
+      {rows.length > 0 && (
+        <div className="grid grid-cols-[1fr_5rem_1fr_auto] gap-2 text-sm text-gray-500">
+          <div>下限価格（円）</div><div>±%</div><div>最低 ±円</div><div />
+        </div>
+      )}
+      {rows.map((r, i) => (
+        <div key={i} className="grid grid-cols-[1fr_5rem_1fr_auto] gap-2">
+          <Input value={r.minPrice} onChange={e => set(i, { minPrice: e.target.value })} inputMode="numeric" placeholder="0" className="h-8" />
+          <Input value={r.pct} onChange={e => set(i, { pct: e.target.value })} inputMode="decimal" placeholder="なし" className="h-8" />
+          <Input value={r.minYen} onChange={e => set(i, { minYen: e.target.value })} inputMode="numeric" placeholder="なし" className="h-8" />
+          <Button size="sm" variant="ghost" onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}><Trash2 className="h-4 w-4" /></Button>
+        </div>
+      ))}
+      <div className="text-xs text-gray-500">
+        {rows.length ? "一番安い帯の下限より安いカード" : "価格帯を追加しない間は、すべてのカード"}は ±{tolPct}% です。カードごとの個別設定（カード管理）はこれより優先されます。
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={() => setRows(prev => [...prev, { minPrice: "", pct: "", minYen: "" }])}><Plus className="h-4 w-4 mr-1" />価格帯を追加</Button>
+        <Button size="sm" onClick={save}><Save className="h-4 w-4 mr-1" />保存</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import React from "react";
+
+export type TrendValue = { label: string; value: number | null };
+
+/* 推移の小さな折れ線（値の無い区切りは線をつながない）。max を省くと値の最大に合わせる */
+export function TrendChart({ points, unit, max, width = 320, height = 96, className = "text-blue-600" }: {
+  points: TrendValue[];
+  unit: string;
+  max?: number;
+  width?: number;
+  height?: number;
+  className?: string;
+}) {
+  const values = points.flatMap(p => (p.value == null ? [] : [p.value]));
+  if (!values.length) return <div className="text-xs text-gray-500">まだ回答がありません</div>;
+
+  const pad = 8;
+  const top = Math.max(max ?? 0, ...values) || 1;
+  const x = (i: number) => (points.length < 2 ? width / 2 : pad + (i * (width - pad * 2)) / (points.length - 1));
+  const y = (v: number) => pad + ((top - v) * (height - pad * 2)) / top;
+  const path = points
+    .map((p, i) => (p.value == null ? "" : `${i && points[i - 1].value != null ? "L" : "M"}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`))
+    .join(" ");
+
+  return (
+    <div className="grid gap-1">
+      <svg width={width} height={height} className={`bg-white rounded-lg border ${className}`}>
+        <line x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} className="stroke-gray-200" />
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+        {points.map((p, i) => p.value != null && (
+          <circle key={i} cx={x(i)} cy={y(p.value)} r={2.5} fill="currentColor">
+            <title>{`${p.label}：${p.value}${unit}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="text-xs text-gray-500 flex justify-between" style={{ width }}>
+        <span>{points[0].label}</span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+    </div>
+  );
+}
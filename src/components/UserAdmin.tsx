@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { KeyRound, UserPlus } from "lucide-react";
+import type { Role, TUser } from "@/lib/types";
+import { api, type UserInput } from "@/lib/api";
+
+/* ユーザー台帳（管理者）：表示名・部署・権限・有効/無効 */
+export function UserAdmin({ me }: { me: TUser }) {
+  const [users, setUsers] = useState<TUser[]>([]);
+  const [draft, setDraft] = useState<UserInput>({ name: "", displayName: "", department: "", password: "", role: "player" });
+
+  useEffect(() => {
+    api.listUsers().then(setUsers).catch((e: Error) => toast.error("ユーザー取得失敗: " + e.message));
+  }, []);
+
+  async function add() {
+    try {
+      const u = await api.createUser(draft);
+      setUsers(prev => [...prev, u]);
+      setDraft({ name: "", displayName: "", department: "", password: "", role: "player" });
+      toast.success(`${u.displayName} を追加しました`);
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  async function update(u: TUser, patch: UserInput) {
+    try {
+      const next = await api.updateUser(u.id, patch);
+      setUsers(prev => prev.map(x => (x.id === u.id ? next : x)));
+    } catch (e) { toast.error((e as Error).message); }
+  }
+
+  function resetPassword(u: TUser) {
+    const password = prompt(`${u.displayName} の新しいパスワード（6 文字以上）`);
+    if (password) update(u, { password }).then(() => toast.success("パスワードを変更しました"));
+  }
+
+  return (
+    <div className="grid gap-3">
+      <Label>ユーザー</Label>
+      <div className="grid gap-2">
+        {users.map(u => (
+          <div key={u.id} className={`text-sm p-2 rounded-lg border bg-white grid gap-2 ${u.active ? "" : "opacity-60"}`}>
+            <div className="flex items-center gap-2">
+              <Input defaultValue={u.displayName} className="h-8" onBlur={e => e.target.value !== u.displayName && update(u, { displayName: e.target.value })} />
+              <Input defaultValue={u.department} placeholder="部署" className="h-8 w-28" onBlur={e => e.target.value !== u.department && update(u, { department: e.target.value })} />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-500 truncate">ID: {u.name}</span>
+              <div className="flex items-center gap-2">
+                <Select value={u.role} onValueChange={v => update(u, { role: v as Role })} disabled={u.id === me.id}>
+                  <SelectTrigger className="h-8 w-28"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="player">プレイヤー</SelectItem>
+                    <SelectItem value="admin">管理者</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Switch checked={u.active} disabled={u.id === me.id} onCheckedChange={v => update(u, { active: v })} />
+                <Button size="sm" variant="ghost" onClick={() => resetPassword(u)}><KeyRound className="h-4 w-4" /></Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="ログイン ID" />
+        <Input value={draft.displayName} onChange={e => setDraft({ ...draft, displayName: e.target.value })} placeholder="表示名" />
+        <Input value={draft.department} onChange={e => setDraft({ ...draft, department: e.target.value })} placeholder="部署" />
+        <Input type="password" value={draft.password} onChange={e => setDraft({ ...draft, password: e.target.value })} placeholder="パスワード" autoComplete="new-password" />
+        <Select value={draft.role} onValueChange={v => setDraft({ ...draft, role: v as Role })}>
+          <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="player">プレイヤー</SelectItem>
+            <SelectItem value="admin">管理者</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={add}><UserPlus className="h-4 w-4 mr-2" />追加</Button>
+      </div>
+    </div>
+  );
+}
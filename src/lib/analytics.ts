@@ -0,0 +1,181 @@
+import type { TCard, TResult } from "./types";
+import { askedOf, asksName, asksPrice } from "./quiz";
+import { NAME_MATCH_THRESHOLD, nameIndex } from "./nameMatch";
+
+/* ================= 成績の集計 =================
+ * TResult の履歴から推移・カード別の間違い・価格帯別の誤差などを出す。画面の表と CSV 出力で同じ行を使う
+ */
+const DAY = 86_400_000;
+
+export const PERIODS = [
+  { days: 30, label: "30日" },
+  { days: 90, label: "90日" },
+  { days: 0, label: "すべて" },
+];
+
+// days = 0 なら全期間
+export const inPeriod = (rs: TResult[], days: number) => (days ? rs.filter(r => r.ts >= Date.now() - days * DAY) : rs);
+
+const groupBy = <T, K>(xs: T[], key: (x: T) => K) => {
+  const m = new Map<K, T[]>();
+  for (const x of xs) {
+    const k = key(x), list = m.get(k);
+    if (list) list.push(x); else m.set(k, [x]);
+  }
+  return m;
+};
+
+export const rateOf = (ok: number, total: number) => (total ? Math.round((ok / total) * 100) : null);
+
+const correctRate = (rs: TResult[]) => rateOf(rs.filter(r => r.correct).length, rs.length);
+
+// 価格誤差（絶対値の平均。自由入力の回答だけ）
+export const avgPriceError = (rs: TResult[]) => {
+  const xs = rs.filter(r => r.priceErrorPct != null);
+  return xs.length ? Math.round((xs.reduce((a, r) => a + Math.abs(r.priceErrorPct ?? 0), 0) / xs.length) * 10) / 10 : null;
+};
+
+/* ----- 日・週の区切り（ローカル時刻。週は月曜始まり） ----- */
+export type Bucket = "day" | "week";
+
+export function bucketStart(ts: number, unit: Bucket) {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  if (unit === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+export const bucketLabel = (t: number, unit: Bucket) => {
+  const d = new Date(t);
+  return `${d.getMonth() + 1}/${d.getDate()}${unit === "week" ? "〜" : ""}`;
+};
+
+// 回答のあった直近 n 区切り（古い順）
+export const recentBuckets = (rs: TResult[], unit: Bucket, n: number) =>
+  [...new Set(rs.map(r => bucketStart(r.ts, unit)))].sort((a, b) => a - b).slice(-n);
+
+/* ----- ユーザー別の正答率の推移 ----- */
+export type UserTrend = { user: string; name: string; total: number; rate: number | null; byWeek: (number | null)[] };
+
+export function userTrends(rs: TResult[], names: Map<string, string>, weeks: number[]): UserTrend[] {
+  return [...groupBy(rs, r => r.user)]
+    .map(([user, list]) => {
+      const byWeek = groupBy(list, r => bucketStart(r.ts, "week"));
+      return { user, name: names.get(user) ?? user, total: list.length, rate: correctRate(list), byWeek: weeks.map(w => correctRate(byWeek.get(w) ?? [])) };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+/* ----- カード別の間違い ----- */
+export type CardMiss = { cardId: string; name: string; total: number; misses: number; missRate: number; nameMisses: number; priceMisses: number };
+
+// 回答が minAnswers 件未満のカードは率がぶれるので除く。削除済みカードは回答時の名前で出す
+export function cardMissRates(rs: TResult[], cards: TCard[], minAnswers = 3): CardMiss[] {
+  const nameOf = new Map(cards.map(c => [c.id, c.name]));
+  return [...groupBy(rs, r => r.cardId)]
+    .filter(([, list]) => list.length >= minAnswers)
+    .map(([cardId, list]) => {
+      const misses = list.filter(r => !r.correct).length;
+      return {
+        cardId, name: nameOf.get(cardId) ?? list[0].correctName, total: list.length, misses,
+        missRate: rateOf(misses, list.length) ?? 0,
+        nameMisses: list.filter(r => asksName(askedOf(r)) && !r.nameOk).length,
+        priceMisses: list.filter(r => asksPrice(askedOf(r)) && !r.priceOk).length,
+      };
+    })
+    .sort((a, b) => b.missRate - a.missRate || b.total - a.total);
+}
+
+/* ----- 取り違え（名前を間違えたとき、別のカードの名前を答えていた組み合わせ） ----- */
+export type Confusion = { cardId: string; name: string; answeredId: string; answeredName: string; count: number };
+
+export function confusedCards(rs: TResult[], cards: TCard[]): Confusion[] {
+  const match = nameIndex(cards);
+  const nameOf = new Map(cards.map(c => [c.id, c.name]));
+  const counts = new Map<string, Confusion>();
+  for (const r of rs) {
+    if (!asksName(askedOf(r)) || r.nameOk || !r.answeredName.trim()) continue;
+    const hit = match(r.answeredName);
+    if (!hit || hit.card.id === r.cardId || hit.similarity < NAME_MATCH_THRESHOLD) continue;
+    const key = `${r.cardId}\n${hit.card.id}`;
+    const prev = counts.get(key);
+    counts.set(key, prev
+      ? { ...prev, count: prev.count + 1 }
+      : { cardId: r.cardId, name: nameOf.get(r.cardId) ?? r.correctName, answeredId: hit.card.id, answeredName: hit.card.name, count: 1 });
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+/* ----- 価格帯別の誤差 ----- */
+export const ERROR_BAND_EDGES = [0, 1_000, 5_000, 10_000, 50_000, 100_000];
+
+export type BandError = { label: string; total: number; priceRate: number | null; avgErr: number | null };
+
+// 正解の相場で帯に分け、価格を聞いた回答の正答率と平均誤差を出す
+export function priceErrorByBand(rs: TResult[]): BandError[] {
+  const yen = (v: number) => `¥${v.toLocaleString()}`;
+  return ERROR_BAND_EDGES.map((min, i) => {
+    const max = ERROR_BAND_EDGES[i + 1];
+    const list = rs.filter(r => asksPrice(askedOf(r)) && r.correctPrice >= min && (max == null || r.correctPrice < max));
+    return {
+      label: max == null ? `${yen(min)}〜` : `${yen(min)}–${yen(max)}`,
+      total: list.length,
+      priceRate: rateOf(list.filter(r => r.priceOk).length, list.length),
+      avgErr: avgPriceError(list),
+    };
+  });
+}
+
+/* ----- 曜日 × 時間帯の回答数 ----- */
+export const WEEKDAYS = ["月", "火", "水", "木", "金", "土", "日"];
+
+// [曜日（月 = 0）][時（0〜23）]
+export function activityHeatmap(rs: TResult[]) {
+  const grid = WEEKDAYS.map(() => Array<number>(24).fill(0));
+  for (const r of rs) {
+    const d = new Date(r.ts);
+    grid[(d.getDay() + 6) % 7][d.getHours()]++;
+  }
+  return grid;
+}
+
+/* ----- 個人の成長（回答は新しい順で渡す） ----- */
+export type TrendPoint = { t: number; total: number; rate: number | null; avgErr: number | null };
+
+// 回答のあった直近 n 区切りごとの正答率と平均価格誤差（古い順）
+export function trendOf(rs: TResult[], unit: Bucket, n: number): TrendPoint[] {
+  const groups = groupBy(rs, r => bucketStart(r.ts, unit));
+  return recentBuckets(rs, unit, n).map(t => {
+    const list = groups.get(t) ?? [];
+    return { t, total: list.length, rate: correctRate(list), avgErr: avgPriceError(list) };
+  });
+}
+
+const prevDay = (t: number) => {
+  const d = new Date(t);
+  d.setDate(d.getDate() - 1);
+  return d.getTime();
+};
+
+// 連続正解（今と最高）と、今日（まだなら昨日）まで続けて回答した日数
+export function answerStreaks(rs: TResult[]) {
+  let run = 0, best = 0;
+  for (const r of [...rs].reverse()) {
+    run = r.correct ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  const days = new Set(rs.map(r => bucketStart(r.ts, "day")));
+  let day = bucketStart(Date.now(), "day"), daysInRow = 0;
+  if (!days.has(day)) day = prevDay(day);
+  for (; days.has(day); day = prevDay(day)) daysInRow++;
+  return { current: run, best, days: daysInRow };
+}
+
+// 苦手なカード：カードごとの直近 WEAK_WINDOW 回で 1 回以上まちがえたもの（今も出題できるカードだけ）
+export const WEAK_WINDOW = 5;
+
+export function weakCards(rs: TResult[], cards: TCard[], limit = 10): CardMiss[] {
+  const ids = new Set(cards.map(c => c.id));
+  const recent = [...groupBy(rs, r => r.cardId).values()].flatMap(list => list.slice(0, WEAK_WINDOW));
+  return cardMissRates(recent, cards, 2).filter(m => m.misses && ids.has(m.cardId)).slice(0, limit);
+}
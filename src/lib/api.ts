@@ -0,0 +1,83 @@
+import type { TCard, TCompareResult, TExam, TExamAttempt, TExamListItem, TExamState, TPreset, TQuizAnswer, TResult, TSettings, TQuarantineEntry, TUser, TUserEntry } from "./types";
+import type { CardBulk, CardBulkResult, CardRow } from "./quiz";
+import type { ScheduleMap } from "./srs";
+import type { ImportPlan } from "./importPlan";
+import type { BackupSummary, TBackup } from "./backup";
+
+/* ================= API クライアント ================= */
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (res.status === 204) return undefined as T;
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+  return body as T;
+}
+
+export type ResultQuery = { user?: string; cardId?: string; from?: number | string; to?: number | string; limit?: number };
+
+const qs = (q: Record<string, unknown>) => {
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(q)) if (v != null && v !== "") sp.set(k, String(v));
+  const s = sp.toString();
+  return s ? `?${s}` : "";
+};
+
+const json = (method: string, data: unknown): RequestInit => ({ method, body: JSON.stringify(data) });
+
+export type Session = { user: TUser | null; needsSetup: boolean };
+export type UserInput = Partial<Pick<TUser, "name" | "displayName" | "department" | "role" | "active">> & { password?: string };
+
+export type ExamInput = Partial<Omit<TExam, "id" | "createdAt">>;
+
+export type PresetInput = Partial<Omit<TPreset, "id">>;
+
+const examUrl = (id: string, rest = "") => `/api/exams/${encodeURIComponent(id)}${rest}`;
+
+export const api = {
+  me: () => request<Session>("/api/auth/me"),
+  directory: () => request<TUserEntry[]>("/api/auth/users"),
+  login: (id: string, password: string) => request<TUser>("/api/auth/login", json("POST", { id, password })),
+  logout: () => request<void>("/api/auth/logout", { method: "POST" }),
+  setup: (name: string, password: string) => request<TUser>("/api/auth/setup", json("POST", { name, password })),
+  listUsers: () => request<TUser[]>("/api/users"),
+  createUser: (u: UserInput) => request<TUser>("/api/users", json("POST", u)),
+  updateUser: (id: string, patch: UserInput) => request<TUser>(`/api/users/${encodeURIComponent(id)}`, json("PUT", patch)),
+  getSettings: () => request<TSettings>("/api/settings"),
+  updateSettings: (patch: Partial<TSettings>) => request<TSettings>("/api/settings", json("PUT", patch)),
+
+  listPresets: () => request<TPreset[]>("/api/presets"),
+  createPreset: (p: PresetInput) => request<TPreset>("/api/presets", json("POST", p)),
+  updatePreset: (id: string, p: PresetInput) => request<TPreset>(`/api/presets/${encodeURIComponent(id)}`, json("PUT", p)),
+  deletePreset: (id: string) => request<void>(`/api/presets/${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+  listCards: () => request<TCard[]>("/api/cards"),
+  createCard: (row: CardRow) => request<TCard>("/api/cards", json("POST", row)),
+  updateCard: (id: string, patch: CardRow) => request<TCard>(`/api/cards/${encodeURIComponent(id)}`, json("PUT", patch)),
+  deleteCard: (id: string) => request<void>(`/api/cards/${encodeURIComponent(id)}`, { method: "DELETE" }),
+  bulkCards: (ops: CardBulk) => request<CardBulkResult>("/api/cards/bulk", json("POST", ops)),
+  previewImport: (rows: CardRow[]) => request<ImportPlan>("/api/cards/import", json("POST", { rows, preview: true })),
+  importCards: (rows: CardRow[], removeMissing: boolean) =>
+    request<{ cards: TCard[]; plan: ImportPlan }>("/api/cards/import", json("POST", { rows, removeMissing })),
+  listResults: (q: ResultQuery = {}) => request<TResult[]>(`/api/results${qs(q)}`),
+  postAnswer: (a: TQuizAnswer) => request<TResult[]>("/api/results", json("POST", a)),
+  getSchedule: () => request<ScheduleMap>("/api/schedule"),
+  listCompareResults: (q: { user?: string; limit?: number } = {}) => request<TCompareResult[]>(`/api/compare${qs(q)}`),
+  postCompareResult: (r: TCompareResult) => request<TCompareResult[]>("/api/compare", json("POST", r)),
+  clearCompareResults: () => request<void>("/api/compare", { method: "DELETE" }),
+  listExams: () => request<TExamListItem[]>("/api/exams"),
+  createExam: (e: ExamInput) => request<TExam>("/api/exams", json("POST", e)),
+  updateExam: (id: string, e: ExamInput) => request<TExam>(examUrl(id), json("PUT", e)),
+  deleteExam: (id: string) => request<void>(examUrl(id), { method: "DELETE" }),
+  examAttempts: (id: string) => request<TExamAttempt[]>(examUrl(id, "/attempts")),
+  examState: (id: string) => request<TExamState | null>(examUrl(id, "/attempt")),
+  startExam: (id: string) => request<TExamState>(examUrl(id, "/attempt"), { method: "POST" }),
+  answerExam: (id: string, index: number, answeredName: string, answeredPrice: string) =>
+    request<TExamState>(examUrl(id, "/attempt/answer"), json("POST", { index, answeredName, answeredPrice })),
+  clearResults: () => request<void>("/api/results", { method: "DELETE" }),
+  listQuarantine: () => request<TQuarantineEntry[]>("/api/storage"),
+  getBackup: () => request<TBackup>("/api/backup"),
+  restoreBackup: (doc: unknown) => request<BackupSummary>("/api/backup", json("POST", doc)),
+};
@@ -0,0 +1,120 @@
+import type { PsaFilter, TCard, TCompareResult, TExam, TExamAttempt, TPreset, TResult, TSettings, TUser } from "./types";
+import type { ScheduleMap } from "./srs";
+import { cardFilterFromPsa } from "./quiz";
+
+/* ================= ワークスペースのバックアップ =================
+ * カード・ユーザー・設定・履歴・比較クイズの履歴・復習スケジュール・試験・出題プリセットをまとめた 1 ファイル。
+ * 含まれていない項目は復元時にそのまま残す。古い形式は migrateBackup で最新に揃える。
+ */
+export const BACKUP_FORMAT = "card-quiz-backup";
+export const BACKUP_VERSION = 2;
+
+export type TBackupUser = TUser & { passwordHash: string };
+
+export type TBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  migratedFrom?: string;            // 旧形式から変換した場合の元の形式
+  cards?: TCard[];
+  users?: TBackupUser[];
+  settings?: TSettings;
+  results?: TResult[];
+  compareResults?: TCompareResult[];
+  schedules?: Record<string, ScheduleMap>;
+  exams?: TExam[];
+  examAttempts?: TExamAttempt[];
+  presets?: TPreset[];
+};
+
+export const BACKUP_SECTIONS = [
+  { key: "cards", label: "カード" },
+  { key: "users", label: "ユーザー" },
+  { key: "settings", label: "設定" },
+  { key: "results", label: "回答履歴" },
+  { key: "compareResults", label: "比較クイズの履歴" },
+  { key: "schedules", label: "復習スケジュール（ユーザー数）" },
+  { key: "exams", label: "試験" },
+  { key: "examAttempts", label: "受験記録" },
+  { key: "presets", label: "出題プリセット" },
+] as const;
+
+export type BackupSection = (typeof BACKUP_SECTIONS)[number]["key"];
+export type BackupSummary = { key: BackupSection; label: string; count: number | null }[];
+
+/* ----- 旧形式 ----- */
+// ブラウザの localStorage（card-quiz-v1）に 1 人分を丸ごと入れていた頃のスナップショット
+const LEGACY_KEY = "card-quiz-v1";
+type LegacyStore = {
+  user?: string;
+  cards?: TCard[];
+  missMap?: Record<string, number>;
+  results?: TResult[];
+  tolPct?: number;
+  strictName?: boolean;
+  psaFilter?: PsaFilter;
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// localStorage の値をそのまま貼った場合（文字列）や { "card-quiz-v1": ... } で包んだ場合も受け付ける
+function unwrapLegacy(raw: Record<string, unknown>): LegacyStore | null {
+  const inner = raw[LEGACY_KEY];
+  if (typeof inner === "string") return JSON.parse(inner) as LegacyStore;
+  if (isRecord(inner)) return inner as LegacyStore;
+  return Array.isArray(raw.cards) || Array.isArray(raw.results) ? (raw as LegacyStore) : null;
+}
+
+// missMap（間違い回数の重み）は SM-2 のスケジュールに置き換わったので引き継がない。
+// 設定（tolPct など）は 1 ブラウザ分の好みなので、全員で共有する設定には持ち込まない。
+// 価格が数値でない回答（当時は保存できてしまった）は捨てる
+function fromLegacy(s: LegacyStore): TBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    migratedFrom: LEGACY_KEY,
+    cards: s.cards,
+    results: s.results?.filter(r => Number.isFinite(r?.answeredPrice) && Number.isFinite(r?.correctPrice)),
+  };
+}
+
+// version n → n+1 の変換。形式を変えたらここに足していく
+// （カードの psa → grader + grade は toCard が読み替えるのでここでは扱わない）
+const MIGRATIONS: Record<number, (b: TBackup) => TBackup> = {
+  // 1 → 2: 設定の psaFilter を cardFilter に
+  1: b => {
+    if (!b.settings) return { ...b, version: 2 };
+    const { psaFilter, ...settings } = b.settings as TSettings & { psaFilter?: PsaFilter };
+    return { ...b, version: 2, settings: { ...settings, cardFilter: cardFilterFromPsa(psaFilter) } };
+  },
+};
+
+export function migrateBackup(raw: unknown): TBackup {
+  const doc = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!isRecord(doc)) throw new Error("バックアップファイルの形式が不正です");
+  let b: TBackup;
+  if (doc.format === BACKUP_FORMAT) {
+    b = doc as TBackup;
+  } else {
+    const legacy = unwrapLegacy(doc);
+    if (!legacy) throw new Error("バックアップファイルの形式が不正です");
+    b = fromLegacy(legacy);
+  }
+  if (!Number.isInteger(b.version) || b.version > BACKUP_VERSION) throw new Error(`未対応のバックアップ形式です（version ${b.version}）`);
+  while (b.version < BACKUP_VERSION) {
+    const step = MIGRATIONS[b.version];
+    if (!step) throw new Error(`version ${b.version} からの変換がありません`);
+    b = step(b);
+  }
+  return b;
+}
+
+// プレビュー用：各項目の件数（含まれていない項目は null）
+export function summarizeBackup(b: TBackup): BackupSummary {
+  return BACKUP_SECTIONS.map(({ key, label }) => {
+    const v = b[key];
+    const count = v == null ? null : Array.isArray(v) ? v.length : key === "schedules" ? Object.keys(v).length : 1;
+    return { key, label, count };
+  });
+}
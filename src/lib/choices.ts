@@ -0,0 +1,83 @@
+import type { TCard, TPriceBand } from "./types";
+import { shuffle } from "./quiz";
+import { nameKey } from "./nameMatch";
+
+/* ================= 選択式の選択肢 =================
+ * 名前は出題中の候補から紛らわしいもの（同じセット・近い価格・似た名前）を優先して混ぜる。
+ * 価格は比率 BAND_RATIO ずつの連続した帯を作り、正解の帯がランダムな位置に来るようにする。
+ */
+export const CHOICE_COUNT = 4;
+const BAND_RATIO = 1.5;
+const MIN_BASE = 100;
+
+const bigrams = (s: string) => {
+  const t = nameKey(s);
+  return t.length < 2 ? [t] : Array.from({ length: t.length - 1 }, (_, i) => t.slice(i, i + 2));
+};
+
+// 名前の似かた（文字 2-gram の Dice 係数、0〜1）。紛らわしい選択肢を選ぶ用
+function lookAlike(a: string, b: string) {
+  const x = bigrams(a), y = bigrams(b);
+  const rest = [...y];
+  let hit = 0;
+  for (const g of x) {
+    const i = rest.indexOf(g);
+    if (i >= 0) { hit++; rest.splice(i, 1); }
+  }
+  return (2 * hit) / (x.length + y.length);
+}
+
+// 価格の近さ（同額 1 → 4 倍以上離れると 0）
+const priceCloseness = (a: number, b: number) =>
+  a > 0 && b > 0 ? Math.max(0, 1 - Math.abs(Math.log(a / b)) / Math.log(4)) : 0;
+
+export function nameChoices(card: TCard, pool: TCard[], n = CHOICE_COUNT): string[] {
+  const taken = new Set([card.name, ...(card.aliases ?? [])].map(nameKey));
+  const ranked = pool
+    .filter(c => !taken.has(nameKey(c.name)))
+    .map(c => ({
+      name: c.name,
+      score: (c.set && c.set === card.set ? 1 : 0) + priceCloseness(c.price, card.price) + lookAlike(c.name, card.name) + Math.random() * 0.3,
+    }))
+    .sort((a, b) => b.score - a.score);
+  const names: string[] = [];
+  for (const r of ranked) {
+    if (names.length >= n - 1) break;
+    if (!names.some(x => nameKey(x) === nameKey(r.name))) names.push(r.name);
+  }
+  return shuffle([card.name, ...names]);
+}
+
+// 上 2 桁に丸める（58,300 → 58,000）
+const roundNice = (v: number) => {
+  const p = 10 ** Math.max(0, Math.floor(Math.log10(v)) - 1);
+  return Math.round(v / p) * p;
+};
+
+export function priceBands(price: number, n = CHOICE_COUNT): TPriceBand[] {
+  const k = Math.floor(Math.random() * n);
+  const u = 0.25 + Math.random() * 0.5; // 正解が帯の端に寄りすぎない（丸めても帯からはみ出さない）
+  const base = Math.max(price, MIN_BASE) / BAND_RATIO ** (k + u); // 安すぎるカードは 100 円を基準に帯を作る
+  const edges = Array.from({ length: n + 1 }, (_, i) => roundNice(base * BAND_RATIO ** i));
+  if (price < edges[0]) edges[0] = 0; // 最初の帯より安ければ 0 円からにする
+  return edges.slice(0, n).map((min, i) => ({ min, max: edges[i + 1] })).filter(b => b.min < b.max);
+}
+
+export const inBand = (b: TPriceBand, price: number) => price >= b.min && price < b.max;
+
+// priceBands が作りうる幅の帯か（丸めのぶれは 15% まで見る）。送られてきた帯を広げて正解にされないように
+export const isChoiceBand = (b: TPriceBand) =>
+  b.min >= 0 && b.max > b.min && (b.min === 0 ? b.max <= MIN_BASE * BAND_RATIO * 1.15 : b.max / b.min <= BAND_RATIO * 1.15);
+
+// 帯の代表値（幾何平均。履歴の answeredPrice に入れる）
+export const bandMid = (b: TPriceBand) => Math.round(b.min > 0 ? Math.sqrt(b.min * b.max) : b.max / 2);
+
+export const bandLabel = (b: TPriceBand) => `¥${b.min.toLocaleString()}〜¥${b.max.toLocaleString()}`;
+
+export type Choices = { names: string[]; bands: TPriceBand[] };
+
+// 候補が足りなければ全カードからも補う
+export const makeChoices = (card: TCard, pool: TCard[], fallback: TCard[]): Choices => ({
+  names: nameChoices(card, pool.length > CHOICE_COUNT ? pool : fallback),
+  bands: priceBands(card.price),
+});
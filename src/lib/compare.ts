@@ -0,0 +1,40 @@
+import type { CompareKind, TCard, TCompareResult } from "./types";
+import { shuffle } from "./quiz";
+
+/* ================= 比較クイズ（一番高いのは？ / 高い順に並べる） ================= */
+export const COMPARE_KINDS: { value: CompareKind; label: string }[] = [
+  { value: "pick", label: "一番高いのは？" },
+  { value: "rank", label: "高い順に並べる" },
+];
+
+export const COMPARE_SIZES = [2, 3, 4];
+
+// 相場が同じカードは順位が決まらないので、価格の違うカードから n 枚（足りなければ null）
+export function pickCompareCards(pool: TCard[], n: number): TCard[] | null {
+  const byPrice = new Map<number, TCard>();
+  for (const c of shuffle(pool)) if (!byPrice.has(c.price)) byPrice.set(c.price, c);
+  return byPrice.size < n ? null : [...byPrice.values()].slice(0, n);
+}
+
+// pick は選んだ 1 枚が最高値、rank は全カードを高い順に並べていれば正解（同額の順は問わない）
+export function compareCorrect(r: Pick<TCompareResult, "kind" | "cardIds" | "prices" | "answer">) {
+  const answered = r.answer.map(id => r.prices[r.cardIds.indexOf(id)]);
+  if (answered.some(p => p == null)) return false;
+  if (r.kind === "pick") return answered.length === 1 && answered[0] === Math.max(...r.prices);
+  return answered.length === r.cardIds.length
+    && new Set(r.answer).size === r.answer.length
+    && answered.every((p, i) => i === 0 || answered[i - 1] >= p);
+}
+
+// 実際の順位（1 = 最高値。同額は同順位）
+export const priceRank = (prices: number[], price: number) => prices.filter(p => p > price).length + 1;
+
+// 新しい順の結果から、今の連続正解数と最高記録
+export function compareStreaks(rs: TCompareResult[]) {
+  let run = 0, best = 0;
+  for (const r of [...rs].reverse()) {
+    run = r.correct ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  return { current: run, best };
+}
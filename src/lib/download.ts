@@ -0,0 +1,8 @@
+/* テキストをファイルとしてダウンロードさせる（ブラウザ専用） */
+export function downloadText(text: string, filename: string, type = "text/csv;charset=utf-8;") {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename;
+  a.click(); URL.revokeObjectURL(url);
+}
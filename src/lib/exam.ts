@@ -0,0 +1,15 @@
+import type { TExamAttempt } from "./types";
+
+/* 試験結果の集計（サーバーのレポートと画面で共通） */
+export function summarizeAttempt(a: TExamAttempt) {
+  const total = a.cardIds.length;
+  const correct = a.answers.filter(x => x.correct).length;
+  const score = total ? Math.round(a.answers.reduce((s, x) => s + (x.score ?? 0), 0) / total) : 0;
+  const durationMs = (a.finishedAt ?? Date.now()) - a.startedAt;
+  return { total, correct, score, durationMs };
+}
+
+export const fmtDuration = (ms: number) => {
+  const sec = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(sec / 60)}分${String(sec % 60).padStart(2, "0")}秒`;
+};
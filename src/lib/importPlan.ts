@@ -0,0 +1,139 @@
+import type { TCard } from "./types";
+import { gradeLabel, gradeSource, isValidCard, isValidGrade, isValidTolerance, norm, parseGrader, parsePrice, pricePointOf, priceHistory, sameGrade, toCard, toHalf, toTolerance, withPricePoint, type CardRow } from "./quiz";
+
+/* ================= 行ごとの検証 =================
+ * toCard は欠けた値を黙って補うので、取り込む前に行単位で問題を洗い出す。
+ * error の行は取り込まず、warning の行は補った値で取り込む。
+ * row は 0 始まりのデータ行の番号（CSV の見出し行と空行は数えない）
+ */
+export type RowIssue = { row: number; level: "error" | "warning"; field: string; message: string };
+
+// JSON では null や数値の行も来るので、オブジェクト以外は行ごとのエラーにする
+export const isRowObject = (v: unknown): v is CardRow => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// toCard と同じ優先順で列を読む
+const cell = (row: CardRow, ...keys: string[]) => {
+  const v = keys.map(k => row[k]).find(x => x != null);
+  return v == null ? "" : String(v).trim();
+};
+
+const isImageUrl = (s: string) => /^(https?:\/\/\S+|data:image\/|\/\S)/i.test(s);
+
+// 同じ名前でもセット・番号・言語・鑑定が違えば別のカード
+const identity = (c: TCard) => [norm(c.name), norm(c.set), norm(c.number), norm(c.language), gradeLabel(c)].join("|");
+
+export function checkRows(rows: CardRow[]): RowIssue[] {
+  const issues: RowIssue[] = [];
+  const seen = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const add = (level: RowIssue["level"], field: string, message: string) => issues.push({ row: i, level, field, message });
+    if (!isRowObject(row)) { add("error", "ROW", `行がオブジェクトではありません: ${JSON.stringify(row)}`); return; }
+    const name = cell(row, "NAME", "name");
+    const price = cell(row, "PRICE", "price");
+    const src = gradeSource(row);
+    const grader = src.grader == null ? "" : String(src.grader).trim();
+    const grade = src.grade == null ? "" : String(src.grade).trim();
+    const img = cell(row, "IMG_URL", "img", "image");
+    const active = cell(row, "ACTIVE", "active").toLowerCase();
+
+    if (!name) add("error", "NAME", "NAME が空です");
+    if (!price) add("error", "PRICE", "PRICE が空です");
+    else if (!Number.isFinite(parsePrice(price))) add("error", "PRICE", `PRICE を数値にできません: ${price}`);
+    else if (parsePrice(price) < 0) add("error", "PRICE", `PRICE が負の値です: ${price}`);
+    const company = parseGrader(grader);
+    if (!company) add("error", "GRADER", `GRADER は PSA / BGS / CGC / RAW で指定してください: ${grader}`);
+    else if (company === "RAW") { if (grade) add("warning", "GRADE", `未鑑定（RAW）のためグレードは無視します: ${grade}`); }
+    else if (!grade) add("warning", "GRADE", "グレードが空のため 10 として扱います");
+    else if (!isValidGrade(Number(toHalf(grade)))) add("error", "GRADE", `グレードは 1〜10（0.5 刻み）で指定してください: ${grade}`);
+    if (!img) add("warning", "IMG_URL", "画像URLがありません");
+    else if (!isImageUrl(img)) add("warning", "IMG_URL", `画像URLが不正です: ${img}`);
+    if (active && !["true", "false"].includes(active)) add("warning", "ACTIVE", `ACTIVE は true / false で指定してください（有効として扱います）: ${active}`);
+    const tolerance = toTolerance(row);
+    if (tolerance && !isValidTolerance(tolerance)) {
+      add("error", "TOL_PCT", `許容誤差は TOL_PCT（0 超 100 以下の %）か TOL_YEN（0 以上の円）で指定してください: ${cell(row, "TOL_PCT")} / ${cell(row, "TOL_YEN")}`);
+    }
+
+    if (name && company) {
+      const key = identity(toCard(row));
+      const first = seen.get(key);
+      if (first !== undefined) add("error", "NAME", `データ行 ${first + 1} と同じカードです（名前・セット・番号・言語・グレードが一致。先の行を採用）`);
+      else seen.set(key, i);
+    }
+  });
+  return issues;
+}
+
+export const rejectedRows = (issues: RowIssue[]) => new Set(issues.filter(x => x.level === "error").map(x => x.row));
+
+/* ================= インポートの差分計画 =================
+ * 取り込む行を既存カードに突き合わせ（id → 名前・グレード＋ファイルにあればセット・番号・言語 の順）、
+ * 追加 / 更新 / 変更なし / ファイルに無い（削除候補）に分ける。
+ * プレビューと適用で同じ計算を使う。
+ */
+export const DIFF_FIELDS = ["name", "set", "number", "language", "rarity", "grader", "grade", "price", "img", "active", "aliases", "decks", "tolerance"] as const;
+export type DiffField = (typeof DIFF_FIELDS)[number];
+
+export type FieldDiff = { field: DiffField; before: unknown; after: unknown };
+
+export type ImportPlan = {
+  issues: RowIssue[];
+  added: TCard[];
+  updated: { before: TCard; after: TCard; changes: FieldDiff[] }[];
+  unchanged: TCard[];
+  removed: TCard[];
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function diffCard(before: TCard, after: TCard): FieldDiff[] {
+  return DIFF_FIELDS
+    .filter(f => !same(before[f], after[f]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+// セット・番号・言語は行に値があるときだけ比べる（列の無い古いファイルでも既存カードに一致させる）
+const sameMeta = (a?: string, b?: string) => !b || norm(a) === norm(b);
+const matches = (prev: TCard, card: TCard) =>
+  norm(prev.name) === norm(card.name) && sameGrade(prev, card)
+  && sameMeta(prev.set, card.set) && sameMeta(prev.number, card.number) && sameMeta(prev.language, card.language);
+
+export function planImport(existing: TCard[], rows: CardRow[]): ImportPlan {
+  const issues = checkRows(rows);
+  const rejected = rejectedRows(issues);
+  const plan: ImportPlan = { issues, added: [], updated: [], unchanged: [], removed: [] };
+  const matched = new Set<string>();
+  for (const [i, row] of rows.entries()) {
+    if (rejected.has(i)) continue;
+    const card = toCard(row);
+    if (!isValidCard(card)) continue;
+    const free = existing.filter(c => !matched.has(c.id));
+    const prev = free.find(c => c.id === card.id) ?? free.find(c => matches(c, card));
+    if (!prev) {
+      plan.added.push(card.prices?.length ? card : withPricePoint(card, pricePointOf(row, card, "import")));
+      continue;
+    }
+    matched.add(prev.id);
+    // ファイルに無い列は既存カードの値を残す（toCard は ID 列を先に読むので ID も既存の id で上書きする）
+    const merged = toCard({ ...prev, prices: row.prices, ...row, ID: prev.id, id: prev.id });
+    const changes = diffCard(prev, merged);
+    if (!changes.length) { plan.unchanged.push(prev); continue; }
+    // 既存の id と相場履歴は引き継ぎ、価格・グレードが変わったときだけ履歴に追記
+    let after: TCard = { ...merged, prices: merged.prices?.length ? merged.prices : prev.prices };
+    if (!merged.prices?.length && changes.some(d => d.field === "price" || d.field === "grader" || d.field === "grade")) {
+      after = withPricePoint({ ...after, prices: priceHistory(prev) }, pricePointOf(row, merged, "import"));
+    }
+    plan.updated.push({ before: prev, after, changes });
+  }
+  plan.removed = existing.filter(c => !matched.has(c.id));
+  return plan;
+}
+
+// 計画をデッキに反映（removeMissing=false ならファイルに無いカードは残す）
+export function applyPlan(existing: TCard[], plan: ImportPlan, removeMissing: boolean): TCard[] {
+  const updated = new Map(plan.updated.map(u => [u.before.id, u.after]));
+  const removed = new Set(removeMissing ? plan.removed.map(c => c.id) : []);
+  return [
+    ...existing.filter(c => !removed.has(c.id)).map(c => updated.get(c.id) ?? c),
+    ...plan.added,
+  ];
+}
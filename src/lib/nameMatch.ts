@@ -0,0 +1,126 @@
+import type { TCard } from "./types";
+
+/* ================= 名前の照合 =================
+ * 表記ゆれ（全角・半角、ひらがな・カタカナ、長音、大文字・小文字、記号）を揃えてから
+ * 編集距離で似かたを測る。カナはローマ字にも直して比べるので "rizaadon" でもリザードンに当たる。
+ */
+export const NAME_MATCH_THRESHOLD = 0.8; // これ以上似ていれば正解（厳格モードは 1 = 表記ゆれのみ許容）
+
+// 長音・ハイフン類・中黒・空白・記号は落とす
+const IGNORED = /[\sー‐\-−–—―〜~・･.,'"!?()[\]]/g;
+
+export const nameKey = (s: string = "") =>
+  s.normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ぁ-ゖ]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60))
+    .replace(IGNORED, "");
+
+const ROMAJI: Record<string, string> = Object.fromEntries(
+  ("ア:a イ:i ウ:u エ:e オ:o カ:ka キ:ki ク:ku ケ:ke コ:ko サ:sa シ:shi ス:su セ:se ソ:so タ:ta チ:chi ツ:tsu テ:te ト:to "
+  + "ナ:na ニ:ni ヌ:nu ネ:ne ノ:no ハ:ha ヒ:hi フ:fu ヘ:he ホ:ho マ:ma ミ:mi ム:mu メ:me モ:mo ヤ:ya ユ:yu ヨ:yo "
+  + "ラ:ra リ:ri ル:ru レ:re ロ:ro ワ:wa ヰ:i ヱ:e ヲ:o ン:n ガ:ga ギ:gi グ:gu ゲ:ge ゴ:go ザ:za ジ:ji ズ:zu ゼ:ze ゾ:zo "
+  + "ダ:da ヂ:ji ヅ:zu デ:de ド:do バ:ba ビ:bi ブ:bu ベ:be ボ:bo パ:pa ピ:pi プ:pu ペ:pe ポ:po ヴ:vu "
+  + "ァ:a ィ:i ゥ:u ェ:e ォ:o ャ:ya ュ:yu ョ:yo ヮ:wa ヵ:ka ヶ:ke")
+    .split(" ").map(p => p.split(":")),
+);
+const YOON: Record<string, string> = { ャ: "a", ュ: "u", ョ: "o" };
+const SMALL_VOWEL: Record<string, string> = { ァ: "a", ィ: "i", ゥ: "u", ェ: "e", ォ: "o" };
+
+// nameKey 済みの文字列のカナをローマ字に（キャ → kya、シュ → shu、ファ → fa、ッ → 子音を重ねる）
+export function toRomaji(key: string) {
+  let out = "", geminate = false;
+  for (let i = 0; i < key.length; i++) {
+    const ch = key[i];
+    if (ch === "ッ") { geminate = true; continue; }
+    let r = ROMAJI[ch];
+    if (r == null) { out += ch; geminate = false; continue; }
+    const next = key[i + 1];
+    if (YOON[next] && r.length > 1 && r.endsWith("i")) {
+      const base = r.slice(0, -1);
+      r = base + (/(sh|ch|j)$/.test(base) ? "" : "y") + YOON[next];
+      i++;
+    } else if (SMALL_VOWEL[next] && r.length > 1) {
+      r = r.slice(0, -1) + SMALL_VOWEL[next];
+      i++;
+    } else if (SMALL_VOWEL[next] && r === "u") {
+      r = "w" + SMALL_VOWEL[next];
+      i++;
+    }
+    if (geminate) { r = r[0] + r; geminate = false; }
+    out += r;
+  }
+  return out;
+}
+
+export function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// 1 - 距離 / 長い方の長さ（0〜1）
+const ratio = (a: string, b: string) => {
+  const len = Math.max(a.length, b.length);
+  return len ? 1 - editDistance(a, b) / len : 1;
+};
+
+// 正解として受け付ける表記。別名は名前の先頭の語の言い換えとしても使う（charizard → charizard VMAX）
+export function nameCandidates(card: Pick<TCard, "name" | "aliases">) {
+  const [, ...rest] = card.name.trim().split(/[\s　]+/);
+  const aliases = card.aliases ?? [];
+  return [card.name, ...aliases, ...(rest.length ? aliases.map(a => [a, ...rest].join(" ")) : [])];
+}
+
+type Keyed = { key: string; romaji: string };
+const keyed = (s: string): Keyed => { const key = nameKey(s); return { key, romaji: toRomaji(key) }; };
+
+// カナのままとローマ字の両方で比べて高い方
+const closeness = (a: Keyed, c: Keyed) => Math.max(ratio(a.key, c.key), ratio(a.romaji, c.romaji));
+const round2 = (v: number) => Math.round(Math.max(v, 0) * 100) / 100;
+
+// 回答と候補のうち一番似ているものの似かた（小数 2 桁）
+export function nameSimilarity(answer: string, card: Pick<TCard, "name" | "aliases">) {
+  const a = keyed(answer);
+  if (!a.key) return 0;
+  return round2(Math.max(...nameCandidates(card).map(keyed).filter(c => c.key).map(c => closeness(a, c))));
+}
+
+// 回答に一番近いカード（たくさんの回答を調べる集計用。候補の正規化は 1 回だけ、同じ回答は使い回す）
+export function nameIndex<T extends Pick<TCard, "name" | "aliases">>(cards: T[]) {
+  const entries = cards.flatMap(card => nameCandidates(card).map(keyed).filter(c => c.key).map(c => ({ card, ...c })));
+  const cache = new Map<string, { card: T; similarity: number } | null>();
+  return (answer: string) => {
+    const a = keyed(answer);
+    if (!cache.has(a.key)) {
+      let best: { card: T; similarity: number } | null = null;
+      if (a.key) for (const e of entries) {
+        const similarity = closeness(a, e);
+        if (!best || similarity > best.similarity) best = { card: e.card, similarity };
+      }
+      cache.set(a.key, best && { ...best, similarity: round2(best.similarity) });
+    }
+    return cache.get(a.key) ?? null;
+  };
+}
+
+// 入力候補：表記ゆれを揃えて前方一致 → 部分一致の順（ローマ字で打ってもカナの名前に当たる）
+export function suggestNames(query: string, options: string[], limit = 8) {
+  const q = nameKey(query);
+  if (!q) return [];
+  const qr = toRomaji(q);
+  return options
+    .map(o => {
+      const k = nameKey(o), r = toRomaji(k);
+      return { o, rank: k.startsWith(q) || r.startsWith(qr) ? 0 : k.includes(q) || r.includes(qr) ? 1 : 2 };
+    })
+    .filter(h => h.rank < 2)
+    .sort((a, b) => a.rank - b.rank || a.o.length - b.o.length)
+    .slice(0, limit)
+    .map(h => h.o);
+}
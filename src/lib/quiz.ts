@@ -0,0 +1,295 @@
+import type { Grader, HistoryFilter, PsaFilter, QuizAsk, QuizMode, TCard, TCardFilter, TPreset, TPricePoint, TResult, TTolerance } from "./types";
+
+/* ================= ユーティリティ ================= */
+export const toHalf = (s: string = "") =>
+  s.replace(/[０-９]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFEE0))
+   .replace(/[，]/g, ",")
+   .replace(/[＋]/g, "+");
+
+export const norm = (s: string = "") => toHalf(s).trim().toLowerCase().replace(/[\s　]/g, "");
+
+export const parsePrice = (v: unknown) => {
+  if (v == null) return NaN;
+  const n = Number(toHalf(String(v)).replace(/[,円]/g, ""));
+  return Number.isFinite(n) ? n : NaN;
+};
+
+export const uid = () => Math.random().toString(36).slice(2);
+
+/* ================= 出題形式 ================= */
+export const QUIZ_MODES: { value: QuizMode; label: string }[] = [
+  { value: "input", label: "入力" },
+  { value: "choice", label: "選択式" },
+];
+
+export const modeOf = (r: TResult): QuizMode => r.mode ?? "input";
+
+export const QUIZ_ASKS: { value: QuizAsk; label: string }[] = [
+  { value: "both", label: "名前と価格" },
+  { value: "price", label: "価格だけ" },
+  { value: "name", label: "名前だけ" },
+];
+
+export const askedOf = (r: TResult): QuizAsk => r.asked ?? "both";
+export const asksName = (a: QuizAsk) => a !== "price";
+export const asksPrice = (a: QuizAsk) => a !== "name";
+
+/* ================= 初期デモカード ================= */
+export const demoCards: TCard[] = [
+  { id: uid(), img: "https://images.pokemontcg.io/swsh45/sv107_hires.png", name: "リザードン VMAX", grader: "PSA", grade: 10, price: 58000, active: true, aliases: ["リザバナ","charizard"] },
+  { id: uid(), img: "https://images.pokemontcg.io/base1/4_hires.png",    name: "ピカチュウ プロモ", grader: "PSA", grade: 10, price: 32000, active: true, aliases: ["pikachu","プロモ"] },
+  { id: uid(), img: "https://images.pokemontcg.io/base1/2_hires.png",    name: "フシギバナ",       grader: "PSA", grade: 10, price: 42000, active: true, aliases: ["venusaur","バナ"] },
+];
+
+/* ================= 入力正規化 ================= */
+export type CardRow = Record<string, unknown>;
+
+// カード管理の一括操作（更新 → 削除 → 追加の順に、まとめて 1 回で保存する）
+export type CardBulk = { update?: { id: string; patch: CardRow }[]; remove?: string[]; create?: CardRow[] };
+export type CardBulkResult = { updated: TCard[]; removed: string[]; created: TCard[] };
+
+// 配列でもカンマ区切り文字列でも受け付ける
+const splitList = (v: unknown, sep: RegExp) =>
+  (Array.isArray(v) ? v.map(String) : String(v ?? "").split(sep)).map(s => s.trim()).filter(Boolean);
+
+// 空文字は「値なし」として持たない
+const text = (v: unknown) => String(v ?? "").trim() || undefined;
+
+/* ----- 鑑定会社・グレード ----- */
+export const GRADERS: Grader[] = ["PSA", "BGS", "CGC", "RAW"];
+const RAW_WORDS = ["UNGRADED", "未鑑定", "なし"];
+
+// 空なら PSA。知らない会社名は null
+export function parseGrader(v: unknown): Grader | null {
+  const s = toHalf(String(v ?? "")).trim().toUpperCase();
+  if (!s) return "PSA";
+  if (RAW_WORDS.includes(s)) return "RAW";
+  return GRADERS.find(g => g === s) ?? null;
+}
+
+export const isValidGrade = (g: unknown) => typeof g === "number" && g >= 1 && g <= 10 && Number.isInteger(g * 2);
+
+// 1, 1.5, … 10（選択肢用）
+export const GRADE_STEPS = Array.from({ length: 19 }, (_, i) => 1 + i / 2);
+
+// 鑑定会社・グレードの列。旧形式の PSA 列は PSA のグレードとして読む
+export const gradeSource = (row: CardRow) => {
+  const psa = row.PSA ?? row.psa;
+  return { grader: row.GRADER ?? (psa != null ? "PSA" : row.grader), grade: row.GRADE ?? psa ?? row.grade };
+};
+
+// グレード空は 10、RAW は常に null（不正な会社名はそのまま残して isValidCard で弾く）
+function toGrade(row: CardRow): { grader: Grader; grade: number | null } {
+  const src = gradeSource(row);
+  const grader = parseGrader(src.grader) ?? (String(src.grader) as Grader);
+  const g = String(src.grade ?? "").trim();
+  return { grader, grade: grader === "RAW" ? null : g ? Number(toHalf(g)) : 10 };
+}
+
+export const gradeLabel = (c: { grader: Grader; grade: number | null }) => (c.grader === "RAW" ? "未鑑定" : `${c.grader}${c.grade}`);
+
+// セット・番号・言語・レアリティを 1 行に（無い項目は省く）
+export const metaLine = (c: TCard) => [c.set, c.number, c.language, c.rarity].filter(Boolean).join(" ・ ");
+
+export const sameGrade = (a: TCard | TPricePoint, b: TCard | TPricePoint) => a.grader === b.grader && a.grade === b.grade;
+
+/* ----- 許容誤差 ----- */
+// pct は 0 超 100 以下、minYen は 0 以上。少なくとも片方は必要
+export const isValidTolerance = (t: TTolerance) =>
+  (t.pct != null || t.minYen != null)
+  && (t.pct == null || (Number.isFinite(t.pct) && t.pct > 0 && t.pct <= 100))
+  && (t.minYen == null || (Number.isFinite(t.minYen) && t.minYen >= 0));
+
+export const toleranceLabel = (t: TTolerance) =>
+  [t.pct != null ? `±${t.pct}%` : null, t.minYen != null ? `最低 ±${t.minYen.toLocaleString()}円` : null].filter(Boolean).join("・");
+
+const tolNumber = (v: unknown) => {
+  const s = String(v ?? "").replace(/[%％]/g, "").trim();
+  return s ? parsePrice(s) : null;
+};
+
+// TOL_PCT / TOL_YEN 列（または保存済みの tolerance）。両方空なら個別設定なし
+export function toTolerance(row: CardRow): TTolerance | undefined {
+  const t = (row.tolerance ?? {}) as Partial<TTolerance>;
+  const pct = tolNumber(row.TOL_PCT ?? t.pct), minYen = tolNumber(row.TOL_YEN ?? t.minYen);
+  return pct == null && minYen == null ? undefined : { pct, minYen };
+}
+
+export const toCard = (row: CardRow): TCard => ({
+  id: String(row.ID || row.id || uid()),
+  img: String(row.IMG_URL ?? row.img ?? row.image ?? ""),
+  name: String(row.NAME ?? row.name ?? ""),
+  set: text(row.SET ?? row.set),
+  number: text(row.NUMBER ?? row.number),
+  language: text(row.LANGUAGE ?? row.language),
+  rarity: text(row.RARITY ?? row.rarity),
+  ...toGrade(row),
+  price: Number(parsePrice(row.PRICE ?? row.price ?? 0)),
+  active: String(row.ACTIVE ?? row.active ?? "true").toLowerCase() !== "false",
+  aliases: splitList(row.ALIASES ?? row.aliases, /[,、]+/), // 別名もデッキ名も空白を含みうる（toCsvRow の ", " 区切りと往復できる）
+  decks: splitList(row.DECKS ?? row.decks, /[,、]+/),
+  tolerance: toTolerance(row),
+  prices: normalizePrices(row.prices),
+});
+
+/* ================= デッキ ================= */
+export const UNSORTED_DECK = "未分類";
+
+export const decksOf = (c: TCard) => (c.decks?.length ? c.decks : [UNSORTED_DECK]);
+
+export const deckNames = (cards: TCard[]) =>
+  [...new Set(cards.flatMap(decksOf))].sort((a, b) => (a === UNSORTED_DECK ? 1 : b === UNSORTED_DECK ? -1 : a.localeCompare(b, "ja")));
+
+// selected が空なら全デッキ
+export const inDecks = (c: TCard, selected: string[]) => !selected.length || decksOf(c).some(d => selected.includes(d));
+
+/* ================= 出題の絞り込み ================= */
+export const emptyCardFilter: TCardFilter = {
+  graders: [], minGrade: null, maxGrade: null, sets: [], languages: [], rarities: [],
+  minPrice: null, maxPrice: null, decks: [], priceChangedDays: null,
+};
+
+const within = (list: string[], v?: string) => !list.length || (v != null && list.includes(v));
+
+export function matchesFilter(c: TCard, f: TCardFilter) {
+  if (f.graders.length && !f.graders.includes(c.grader)) return false;
+  if ((f.minGrade != null || f.maxGrade != null) && c.grade == null) return false;
+  if (f.minGrade != null && c.grade! < f.minGrade) return false;
+  if (f.maxGrade != null && c.grade! > f.maxGrade) return false;
+  if (f.minPrice != null && c.price < f.minPrice) return false;
+  if (f.maxPrice != null && c.price > f.maxPrice) return false;
+  if (f.priceChangedDays != null && !priceChangedSince(c, daysAgo(f.priceChangedDays))) return false;
+  return within(f.sets, c.set) && within(f.languages, c.language) && within(f.rarities, c.rarity) && inDecks(c, f.decks);
+}
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 86400000).toISOString().slice(0, 10);
+
+// since（YYYY-MM-DD）以降に相場が前回から変わったか（日付不明の履歴は数えない）
+export function priceChangedSince(c: TCard, since: string) {
+  const ps = priceHistory(c);
+  return ps.some((p, i) => i > 0 && p.date >= since && p.price !== ps[i - 1].price);
+}
+
+const yen = (n: number) => `¥${n.toLocaleString()}`;
+
+// 一覧表示用の短い説明（絞り込まない項目は出さない）
+export function describeFilter(f: TCardFilter): string[] {
+  const range = (min: number | null, max: number | null, fmt: (n: number) => string) =>
+    min != null && max != null ? `${fmt(min)}〜${fmt(max)}` : min != null ? `${fmt(min)} 以上` : max != null ? `${fmt(max)} 以下` : null;
+  const grade = range(f.minGrade, f.maxGrade, String);
+  const price = range(f.minPrice, f.maxPrice, yen);
+  return [
+    f.graders.length ? f.graders.join("/") : null,
+    grade && `グレード ${grade}`,
+    price,
+    f.sets.length ? `セット: ${f.sets.join(", ")}` : null,
+    f.languages.length ? `言語: ${f.languages.join(", ")}` : null,
+    f.rarities.length ? `レアリティ: ${f.rarities.join(", ")}` : null,
+    f.decks.length ? `デッキ: ${f.decks.join(", ")}` : null,
+    f.priceChangedDays != null ? `${f.priceChangedDays} 日以内に相場が変動` : null,
+  ].filter((s): s is string => Boolean(s));
+}
+
+/* ----- 自分の回答履歴での絞り込み ----- */
+export const HISTORY_FILTERS: { value: HistoryFilter; label: string }[] = [
+  { value: "all", label: "すべて" },
+  { value: "wrong", label: "前回まちがえたカード" },
+  { value: "unseen", label: "まだ答えていないカード" },
+];
+
+export const describePreset = (p: TPreset) =>
+  [...describeFilter(p.filter), ...HISTORY_FILTERS.filter(h => h.value !== "all" && h.value === p.history).map(h => h.label)];
+
+// カードごとの最新の回答
+export function lastAnswers(results: TResult[]) {
+  const last = new Map<string, TResult>();
+  for (const r of results) {
+    const prev = last.get(r.cardId);
+    if (!prev || r.ts > prev.ts) last.set(r.cardId, r);
+  }
+  return last;
+}
+
+export const matchesHistory = (c: TCard, mode: HistoryFilter, last: Map<string, TResult>) =>
+  mode === "wrong" ? last.get(c.id)?.correct === false : mode === "unseen" ? !last.has(c.id) : true;
+
+// 絞り込みの選択肢用：カードに出てくる値（五十音順）
+export const metaValues = (cards: TCard[], key: "set" | "language" | "rarity") =>
+  [...new Set(cards.map(c => c[key]).filter((v): v is string => Boolean(v)))].sort((a, b) => a.localeCompare(b, "ja"));
+
+// 旧設定の PSA フィルタを置き換える
+export const cardFilterFromPsa = (p?: PsaFilter): TCardFilter =>
+  p === "10" ? { ...emptyCardFilter, graders: ["PSA"], minGrade: 10 }
+  : p === "9以下" ? { ...emptyCardFilter, graders: ["PSA"], maxGrade: 9.5 }
+  : emptyCardFilter;
+
+// toCard の逆：インポートと同じ列名の CSV 行にする（ID 付きなので読み戻すと同じカードに一致する）
+export const CARD_CSV_FIELDS = ["ID", "IMG_URL", "NAME", "SET", "NUMBER", "LANGUAGE", "RARITY", "GRADER", "GRADE", "PRICE", "ACTIVE", "ALIASES", "DECKS", "TOL_PCT", "TOL_YEN"] as const;
+export const toCsvRow = (c: TCard): Record<(typeof CARD_CSV_FIELDS)[number], string | number> => ({
+  ID: c.id,
+  IMG_URL: c.img,
+  NAME: c.name,
+  SET: c.set ?? "",
+  NUMBER: c.number ?? "",
+  LANGUAGE: c.language ?? "",
+  RARITY: c.rarity ?? "",
+  GRADER: c.grader,
+  GRADE: c.grade ?? "",
+  PRICE: c.price,
+  ACTIVE: String(c.active !== false),
+  ALIASES: (c.aliases ?? []).join(", "),
+  DECKS: (c.decks ?? []).join(", "),
+  TOL_PCT: c.tolerance?.pct ?? "",
+  TOL_YEN: c.tolerance?.minYen ?? "",
+});
+
+export const isValidCard = (c: TCard) =>
+  Boolean(c.name) && Number.isFinite(c.price) && GRADERS.includes(c.grader) && (c.grader === "RAW" || isValidGrade(c.grade))
+  && (!c.tolerance || isValidTolerance(c.tolerance));
+
+/* ================= 相場の履歴 ================= */
+export const today = () => new Date().toISOString().slice(0, 10);
+
+const toPricePoint = (p: Partial<TPricePoint>): TPricePoint => ({
+  date: String(p.date ?? ""),
+  price: parsePrice(p.price),
+  source: String(p.source ?? ""),
+  ...toGrade(p as CardRow),
+});
+
+// 履歴の無い旧カードは現在の価格 1 件として扱う
+export const priceHistory = (c: TCard): TPricePoint[] =>
+  c.prices?.length ? c.prices : [{ date: "", price: c.price, source: "", grader: c.grader, grade: c.grade }];
+
+// インポート行・編集内容から相場 1 件を作る（DATE / SOURCE 列は任意）
+export const pricePointOf = (row: CardRow, card: TCard, source: string): TPricePoint => ({
+  date: String(row.DATE ?? row.date ?? "") || today(),
+  price: card.price,
+  source: String(row.SOURCE ?? row.source ?? "") || source,
+  grader: card.grader,
+  grade: card.grade,
+});
+
+// 相場を追加して日付順に並べ、price を最新に合わせる（同じ日・同じ出所は上書き）。
+// current=true（手動で直した値）なら、もっと新しい日付の相場が履歴にあってもこの値を今の相場にする
+export function withPricePoint(card: TCard, point: TPricePoint, current = false): TCard {
+  const prices = [...(card.prices ?? []).filter(p => !(p.date === point.date && p.source === point.source)), point]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { ...card, prices, price: current ? point.price : prices[prices.length - 1].price };
+}
+
+// JSON で持ち込まれた prices を正規化（不正な行は捨てる）
+export const normalizePrices = (v: unknown): TPricePoint[] | undefined =>
+  Array.isArray(v)
+    ? v.map(p => toPricePoint(p as Partial<TPricePoint>)).filter(p => Number.isFinite(p.price) && GRADERS.includes(p.grader)).sort((a, b) => a.date.localeCompare(b.date))
+    : undefined;
+
+// Fisher–Yates（元の配列は変更しない）
+export function shuffle<T>(items: T[]): T[] {
+  const a = [...items];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
@@ -0,0 +1,104 @@
+import type { QuizAsk, TCard, TPriceBand, TSettings, TTolerance } from "./types";
+import { asksName, asksPrice, norm, parsePrice, toHalf } from "./quiz";
+import { inBand } from "./choices";
+import { NAME_MATCH_THRESHOLD, nameSimilarity } from "./nameMatch";
+
+/* ================= 採点エンジン =================
+ * 合否（nameOk / priceOk / correct）とは別に、名前と価格を点数化する。
+ * 価格は log(回答/正解) の絶対値で帯を決めるので、高すぎ・安すぎを対称に扱える。
+ * 名前は表記ゆれを揃えた上での似かた（nameMatch）で判定する。
+ * 名前だけ・価格だけの出題では、聞いた部分だけで合否を決め、点数は 100 点満点に換算する。
+ */
+export const NAME_POINTS = 30;
+export const PRICE_POINTS = 70;
+
+// 誤差の帯（比率の上限 → 価格点に対する割合）
+export const PRICE_BANDS: { maxRatio: number; rate: number }[] = [
+  { maxRatio: 1.05, rate: 1 },
+  { maxRatio: 1.10, rate: 0.85 },
+  { maxRatio: 1.20, rate: 0.6 },
+  { maxRatio: 1.35, rate: 0.35 },
+  { maxRatio: 1.50, rate: 0.15 },
+];
+
+export function pricePointsFor(answered: number, correct: number) {
+  if (!(answered > 0) || !(correct > 0)) return answered === correct ? PRICE_POINTS : 0;
+  const logErr = Math.abs(Math.log(answered / correct));
+  const band = PRICE_BANDS.find(b => logErr <= Math.log(b.maxRatio));
+  return Math.round(PRICE_POINTS * (band?.rate ?? 0));
+}
+
+// 符号付きの誤差（%）。高く答えるとプラス
+export const priceErrorPctOf = (answered: number, correct: number) =>
+  correct ? Math.round(((answered - correct) / correct) * 1000) / 10 : 0;
+
+/* ----- 価格の許容範囲 ----- */
+export type ToleranceRules = Pick<TSettings, "tolPct" | "tolRules">;
+
+// カードの個別設定 → 価格帯ルール → 全体の tolPct の順に決める
+export function toleranceFor(card: Pick<TCard, "price" | "tolerance">, rules: ToleranceRules): TTolerance {
+  if (card.tolerance) return card.tolerance;
+  const band = [...rules.tolRules].reverse().find(r => card.price >= r.minPrice);
+  return band ? { pct: band.pct, minYen: band.minYen } : { pct: rules.tolPct, minYen: null };
+}
+
+// 正解にする価格の範囲（円単位に丸める）
+export function toleranceRange(card: Pick<TCard, "price" | "tolerance">, rules: ToleranceRules) {
+  const t = toleranceFor(card, rules);
+  const price = Number(card.price);
+  const width = Math.max((price * (t.pct ?? 0)) / 100, t.minYen ?? 0);
+  return { min: Math.max(0, Math.round(price - width)), max: Math.round(price + width) };
+}
+
+export type Grade = {
+  nameOk: boolean;
+  priceOk: boolean;
+  correct: boolean;
+  namePoints: number;
+  pricePoints: number;
+  score: number;
+  priceErrorPct?: number; // 選択式では測れないので無し
+  nameSimilarity?: number; // 自由入力で名前を聞いたときだけ（0〜1）
+  tolRange?: { min: number; max: number }; // 自由入力で価格を聞いたときだけ
+};
+
+// 聞いていない側は ok=false・0 点のまま渡す
+function finish(asked: QuizAsk, g: Omit<Grade, "correct" | "score">): Grade {
+  const max = (asksName(asked) ? NAME_POINTS : 0) + (asksPrice(asked) ? PRICE_POINTS : 0);
+  return {
+    ...g,
+    correct: (!asksName(asked) || g.nameOk) && (!asksPrice(asked) || g.priceOk),
+    score: Math.round(((g.namePoints + g.pricePoints) / max) * 100),
+  };
+}
+
+export function gradeAnswer(
+  card: TCard, answeredName: string, answeredPrice: string,
+  rules: ToleranceRules & Pick<TSettings, "strictName">, asked: QuizAsk = "both",
+): Grade | null {
+  // 空欄は未回答（parsePrice("") は 0 になるので先に見る）
+  const p = toHalf(answeredPrice).replace(/[,円\s]/g, "") ? parsePrice(answeredPrice) : NaN;
+  if ((asksName(asked) && !norm(answeredName)) || (asksPrice(asked) && Number.isNaN(p))) return null;
+
+  const correctPrice = Number(card.price);
+  const similarity = asksName(asked) ? nameSimilarity(answeredName, card) : undefined;
+  const nameOk = similarity != null && similarity >= (rules.strictName ? 1 : NAME_MATCH_THRESHOLD);
+  const tolRange = asksPrice(asked) ? toleranceRange(card, rules) : undefined;
+  const priceOk = tolRange != null && p >= tolRange.min && p <= tolRange.max;
+
+  return finish(asked, {
+    nameOk, priceOk,
+    namePoints: nameOk ? NAME_POINTS : 0,
+    pricePoints: asksPrice(asked) ? pricePointsFor(p, correctPrice) : 0,
+    priceErrorPct: asksPrice(asked) ? priceErrorPctOf(p, correctPrice) : undefined,
+    nameSimilarity: similarity,
+    tolRange,
+  });
+}
+
+// 選択式：名前は完全一致、価格は正解の帯を選べば満点（誤差は帯の幅より細かく測れないので記録しない）
+export function gradeChoice(card: TCard, pickedName: string | null, band: TPriceBand | null, asked: QuizAsk = "both"): Grade {
+  const nameOk = pickedName != null && norm(pickedName) === norm(card.name);
+  const priceOk = band != null && inBand(band, Number(card.price));
+  return finish(asked, { nameOk, priceOk, namePoints: nameOk ? NAME_POINTS : 0, pricePoints: priceOk ? PRICE_POINTS : 0 });
+}
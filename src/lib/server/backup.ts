@@ -0,0 +1,78 @@
+import type { TCard, TCompareResult, TResult } from "../types";
+import { BACKUP_FORMAT, BACKUP_VERSION, migrateBackup, summarizeBackup, type TBackup } from "../backup";
+import { ApiError } from "./http";
+import { importCards, listCards, restoreCards, validateCard } from "./cards";
+import { checkStoredUsers, restoreUsers, snapshotUsers } from "./users";
+import { checkSettings, getSettings, restoreSettings } from "./settings";
+import { mergeResults, restoreResults, snapshotResults, validateResult } from "./results";
+import { restoreCompareResults, snapshotCompareResults, validateCompareResult } from "./compare";
+import { checkSchedules, rebuildSchedules, restoreSchedules, snapshotSchedules } from "./schedule";
+import { checkAttempts, checkExams, restoreExams, snapshotExams } from "./exams";
+import { checkPresets, listPresets, restorePresets } from "./presets";
+
+/* ================= バックアップ / 復元 =================
+ * 各ストアは個別にロックを取るので、復元は「全項目を検証 → まとめて書き込み」の順で行う。
+ * 途中の項目で検証に落ちたら何も書き込まない。
+ * 旧形式（1 ブラウザ分のスナップショット）は置き換えずに足す。カードはインポートと同じ突き合わせで追加・更新し
+ * （ファイルに無いカードは残す）、回答履歴は重複を除いて追記して、その人の復習スケジュールを作り直す。
+ */
+export async function createBackup(): Promise<TBackup> {
+  const [cards, users, settings, results, compareResults, schedules, { exams, attempts }, presets] = [
+    await listCards(), await snapshotUsers(), await getSettings(), await snapshotResults(),
+    await snapshotCompareResults(), await snapshotSchedules(), await snapshotExams(), await listPresets(),
+  ];
+  return {
+    format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: Date.now(),
+    cards, users, settings, results, compareResults, schedules, exams, examAttempts: attempts, presets,
+  };
+}
+
+function checkList<T>(v: unknown, label: string): T[] {
+  if (!Array.isArray(v)) throw new ApiError(400, `${label}が配列ではありません`);
+  return v as T[];
+}
+
+// 検証（ここでは書き込まない）。ストアの保存時と同じチェックを通す
+function validateBackup(raw: unknown) {
+  const b = migrateBackup(raw);
+  return {
+    b,
+    cards: b.cards && checkList<TCard>(b.cards, "カード").map(c => validateCard(c)),
+    users: b.users && checkStoredUsers(checkList(b.users, "ユーザー")),
+    settings: b.settings && checkSettings(b.settings),
+    results: b.results && checkList<TResult>(b.results, "回答履歴").map(validateResult),
+    compareResults: b.compareResults && checkList<TCompareResult>(b.compareResults, "比較クイズの履歴").map(validateCompareResult),
+    schedules: b.schedules && checkSchedules(b.schedules),
+    exams: b.exams && checkExams(checkList(b.exams, "試験")),
+    attempts: b.examAttempts && checkAttempts(checkList(b.examAttempts, "受験記録")),
+    presets: b.presets && checkPresets(checkList(b.presets, "出題プリセット")),
+  };
+}
+
+export async function restoreBackup(raw: unknown) {
+  let v: ReturnType<typeof validateBackup>;
+  try { v = validateBackup(raw); } catch (e) {
+    throw e instanceof ApiError ? e : new ApiError(400, (e as Error).message);
+  }
+  const { b, cards, users, settings, results, compareResults, schedules, exams, attempts, presets } = v;
+
+  // 書き込み
+  if (cards && b.migratedFrom) {
+    if (cards.length) await importCards(cards, false);
+  } else if (cards) await restoreCards(cards);
+  if (users) await restoreUsers(users);
+  if (settings) await restoreSettings(settings);
+  if (results && b.migratedFrom) {
+    const { added, all } = await mergeResults(results);
+    const touched = [...new Set(added.map(r => r.user))];
+    if (touched.length) await rebuildSchedules(touched, all);
+  } else if (results) await restoreResults(results);
+  if (compareResults) await restoreCompareResults(compareResults);
+  if (schedules) await restoreSchedules(schedules);
+  if (exams || attempts) {
+    const current = await snapshotExams();
+    await restoreExams(exams ?? current.exams, attempts ?? current.attempts);
+  }
+  if (presets) await restorePresets(presets);
+  return summarizeBackup(b);
+}
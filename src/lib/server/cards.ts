@@ -0,0 +1,116 @@
+import type { TCard } from "../types";
+import { demoCards, isValidCard, pricePointOf, priceHistory, sameGrade, toCard, withPricePoint, type CardBulk, type CardBulkResult, type CardRow } from "../quiz";
+import { applyPlan, planImport } from "../importPlan";
+import { ApiError } from "./http";
+import { defineDoc, listOf, readDoc, withLock, writeDoc } from "./store";
+
+/* ================= カードカタログ（全員で共有） ================= */
+// 書き込みは必ず toCard を通して正規化・検証する
+export function validateCard(row: CardRow): TCard {
+  const card = toCard(row);
+  if (!isValidCard(card)) throw new ApiError(400, `不正なカードです: ${card.name || "(名前なし)"}`);
+  return card;
+}
+
+// null = まだ一度も保存していない（デモカードで初期化する）
+// version 2: psa → grader + grade。旧フィールドの読み替えは toCard がインポートと共通で行う
+const DOC = defineDoc<TCard[] | null>({
+  name: "cards.json",
+  version: 2,
+  fallback: () => null,
+  validate: listOf(row => validateCard(row as CardRow)),
+  migrations: { 1: data => data },
+});
+
+async function load(): Promise<TCard[]> {
+  const cards = await readDoc(DOC);
+  if (cards) return cards;
+  // 初回はデモカードで初期化（ID を固定するため保存しておく）
+  await writeDoc(DOC, demoCards);
+  return demoCards;
+}
+
+export const listCards = () => withLock(load);
+
+/* ----- 1 件分の変更（保存はしない。単体の API と一括操作で共通） ----- */
+function created(cards: TCard[], row: CardRow): TCard {
+  const v = validateCard(row);
+  if (cards.some(c => c.id === v.id)) throw new ApiError(409, "同じ ID のカードが既にあります");
+  return v.prices?.length ? v : withPricePoint(v, pricePointOf(row, v, "manual"));
+}
+
+function updated(cards: TCard[], id: string, patch: CardRow): TCard {
+  const prev = cards.find(c => c.id === id);
+  if (!prev) throw new ApiError(404, "カードが見つかりません");
+  const card = validateCard({ ...prev, ...patch, ID: id, id });
+  // 価格やグレードが変わったら履歴に追記（prices を直接渡された場合はそれを使う）。
+  // 日付を指定しない手動の編集は、履歴にもっと新しい日付の相場があっても今の相場にする
+  if (!patch.prices && (card.price !== prev.price || !sameGrade(card, prev))) {
+    const dated = Boolean(patch.DATE ?? patch.date);
+    return withPricePoint({ ...card, prices: priceHistory(prev) }, pricePointOf(patch, card, "manual"), !dated);
+  }
+  return card;
+}
+
+function removed(cards: TCard[], id: string) {
+  if (!cards.some(c => c.id === id)) throw new ApiError(404, "カードが見つかりません");
+  return cards.filter(c => c.id !== id);
+}
+
+export const createCard = (row: CardRow) => withLock(async () => {
+  const cards = await load();
+  const card = created(cards, row);
+  await writeDoc(DOC, [...cards, card]);
+  return card;
+});
+
+export const updateCard = (id: string, patch: CardRow) => withLock(async () => {
+  const cards = await load();
+  const card = updated(cards, id, patch);
+  await writeDoc(DOC, cards.map(c => (c.id === id ? card : c)));
+  return card;
+});
+
+export const deleteCard = (id: string) => withLock(async () => {
+  await writeDoc(DOC, removed(await load(), id));
+});
+
+// 一括操作：全件を検証してから 1 回で保存する（1 件でも失敗したらどのカードも変えない）
+export const bulkCards = (ops: CardBulk) => withLock(async (): Promise<CardBulkResult> => {
+  let cards = await load();
+  const result: CardBulkResult = { updated: [], removed: [], created: [] };
+  for (const { id, patch } of ops.update ?? []) {
+    const card = updated(cards, id, patch);
+    cards = cards.map(c => (c.id === id ? card : c));
+    result.updated.push(card);
+  }
+  for (const id of ops.remove ?? []) {
+    cards = removed(cards, id);
+    result.removed.push(id);
+  }
+  for (const row of ops.create ?? []) {
+    const card = created(cards, row);
+    cards = [...cards, card];
+    result.created.push(card);
+  }
+  await writeDoc(DOC, cards);
+  return result;
+});
+
+// バックアップからの復元（検証済みのカードで丸ごと置き換える）
+export const restoreCards = (cards: TCard[]) => withLock(() => writeDoc(DOC, cards));
+
+// 一括インポートのプレビュー（保存はしない。行ごとの検証結果も返す）
+export const previewImport = (rows: CardRow[]) => withLock(async () => planImport(await load(), rows));
+
+// 一括インポート：既存カード（id か 名前・グレードなどが一致）は id と相場履歴を引き継いでマージする。
+// id が変わらないので回答履歴・復習スケジュールもそのまま残る（検証エラーの行は捨てる）。
+// removeMissing=true のときだけファイルに無いカードを削除する
+export const importCards = (rows: CardRow[], removeMissing: boolean) => withLock(async () => {
+  const cards = await load();
+  const plan = planImport(cards, rows);
+  if (!plan.added.length && !plan.updated.length && !plan.unchanged.length) throw new ApiError(400, "有効な行がありません");
+  const next = applyPlan(cards, plan, removeMissing);
+  await writeDoc(DOC, next);
+  return { cards: next, plan };
+});
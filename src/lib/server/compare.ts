@@ -0,0 +1,74 @@
+import type { TCompareResult } from "../types";
+import { compareCorrect } from "../compare";
+import { ApiError } from "./http";
+import { appendLog, clearLog, defineLog, readLog, withLock } from "./store";
+import { userAliasMap } from "./users";
+import { listCards } from "./cards";
+
+/* ================= 比較クイズの履歴（追記専用ログ） ================= */
+
+export type CompareQuery = { user?: string; limit?: number };
+
+const ids = (v: unknown, label: string) => {
+  if (!Array.isArray(v) || v.some(s => typeof s !== "string" || !s)) throw new ApiError(400, `${label}が不正です`);
+  return v as string[];
+};
+
+// 保存する 1 件を検証する（正誤は並びと相場から付け直す）
+export function validateCompareResult(row: Partial<TCompareResult>): TCompareResult {
+  if (!row || typeof row.user !== "string" || !row.user.trim()) throw new ApiError(400, "user がありません");
+  if (row.kind !== "pick" && row.kind !== "rank") throw new ApiError(400, "比較の種類が不正です");
+  const cardIds = ids(row.cardIds, "cardIds");
+  if (cardIds.length < 2) throw new ApiError(400, "比較するカードは 2 枚以上必要です");
+  if (!Array.isArray(row.prices) || row.prices.length !== cardIds.length || row.prices.some(p => !Number.isFinite(p))) {
+    throw new ApiError(400, "価格が数値ではありません");
+  }
+  const r = {
+    ts: Number.isFinite(row.ts) ? Number(row.ts) : Date.now(),
+    user: row.user.trim(),
+    kind: row.kind,
+    cardIds,
+    prices: row.prices.map(Number),
+    answer: ids(row.answer, "回答"),
+  };
+  return { ...r, correct: compareCorrect(r) };
+}
+
+const LOG = defineLog<TCompareResult>({ name: "compare.jsonl", validate: row => validateCompareResult(row as Partial<TCompareResult>) });
+
+// クライアントの送る相場は使わず、保存されているカードの相場で採点する
+export const appendCompareResults = async (rows: Partial<TCompareResult>[]) => {
+  const priceOf = new Map((await listCards()).map(c => [c.id, c.price]));
+  const valid = rows.map(row => {
+    const cardIds = ids(row?.cardIds, "cardIds");
+    const missing = cardIds.find(id => !priceOf.has(id));
+    if (missing) throw new ApiError(400, `カードが見つかりません: ${missing}`);
+    return validateCompareResult({ ...row, prices: cardIds.map(id => priceOf.get(id) as number) });
+  });
+  return withLock(async () => {
+    await appendLog(LOG, valid);
+    return valid;
+  });
+};
+
+// 新しい順で返す（旧形式のユーザー名は id に読み替える）
+export const queryCompareResults = async (q: CompareQuery = {}) => {
+  const aliases = await userAliasMap();
+  return withLock(async () => {
+    const hits = (await readLog(LOG))
+      .map(r => ({ ...r, user: aliases.get(r.user) ?? r.user }))
+      .filter(r => q.user == null || r.user === q.user)
+      .reverse();
+    return q.limit ? hits.slice(0, q.limit) : hits;
+  });
+};
+
+export const clearCompareResults = () => withLock(() => clearLog(LOG));
+
+// バックアップ用：保存されている順（古い順）のまま出し入れする
+export const snapshotCompareResults = () => withLock(() => readLog(LOG));
+
+export const restoreCompareResults = (rows: TCompareResult[]) => withLock(async () => {
+  await clearLog(LOG);
+  await appendLog(LOG, rows);
+});
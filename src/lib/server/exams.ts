@@ -0,0 +1,225 @@
+import type { TCard, TExam, TExamAnswer, TExamAttempt, TExamListItem, TExamState, TSettings, TUser } from "../types";
+import { parsePrice, shuffle, uid } from "../quiz";
+import { gradeAnswer } from "../scoring";
+import { ApiError } from "./http";
+import { defineDoc, listOf, readDoc, withLock, writeDoc } from "./store";
+import { listCards } from "./cards";
+import { getSettings } from "./settings";
+import { appendResults } from "./results";
+import { recordReviews } from "./schedule";
+
+/* ================= 試験 =================
+ * 出題・採点・時間判定はすべてサーバー側。クライアントには画像だけ渡す。
+ * 1 人 1 回まで（途中で閉じても同じ受験を再開する）。
+ */
+const GRACE_MS = 2000; // 通信遅延ぶんの猶予
+
+export type ExamInput = Partial<Omit<TExam, "id" | "createdAt">>;
+
+const optSec = (v: unknown) => (v == null || v === "" || !(Number(v) > 0) ? undefined : Math.round(Number(v)));
+
+function checkExam(input: ExamInput, prev?: TExam): TExam {
+  const merged = { ...prev, ...input };
+  const title = String(merged.title ?? "").trim();
+  if (!title) throw new ApiError(400, "試験名を入力してください");
+  const questionCount = Math.round(Number(merged.questionCount));
+  if (!(questionCount > 0)) throw new ApiError(400, "問題数は 1 以上にしてください");
+  const tolPct = merged.tolPct == null || String(merged.tolPct) === "" ? undefined : Number(merged.tolPct);
+  if (tolPct != null && !(tolPct >= 1 && tolPct <= 30)) throw new ApiError(400, "許容誤差は 1〜30% で指定してください");
+  return {
+    id: prev?.id ?? uid(),
+    title,
+    cardIds: Array.isArray(merged.cardIds) ? merged.cardIds.map(String) : [],
+    questionCount,
+    perQuestionSec: optSec(merged.perQuestionSec),
+    totalSec: optSec(merged.totalSec),
+    tolPct,
+    strictName: merged.strictName == null ? undefined : Boolean(merged.strictName),
+    active: merged.active !== false,
+    createdAt: prev?.createdAt ?? Date.now(),
+  };
+}
+
+function checkAttempt(row: unknown): TExamAttempt {
+  const a = row as TExamAttempt;
+  if (!a?.id || !a.examId || !a.user || !Array.isArray(a.cardIds) || !Array.isArray(a.answers)) {
+    throw new ApiError(400, `受験記録が不正です: ${a?.id ?? "(ID なし)"}`);
+  }
+  return a;
+}
+
+// 試験は作成時と同じ検証を通す（id と作成日時はそのまま）
+const EXAMS = defineDoc<TExam[]>({ name: "exams.json", version: 1, fallback: () => [], validate: listOf(row => checkExam(row as TExam, row as TExam)) });
+const ATTEMPTS = defineDoc<TExamAttempt[]>({ name: "exam-attempts.json", version: 1, fallback: () => [], validate: listOf(checkAttempt) });
+
+const loadExams = () => readDoc(EXAMS);
+const loadAttempts = () => readDoc(ATTEMPTS);
+
+/* ----- 管理 ----- */
+export const listExams = (user: TUser) => withLock(async (): Promise<TExamListItem[]> => {
+  const [exams, attempts] = [await loadExams(), await loadAttempts()];
+  return exams
+    .filter(e => user.role === "admin" || e.active)
+    .map(e => {
+      const a = attempts.find(x => x.examId === e.id && x.user === user.id);
+      return { ...e, status: !a ? "none" : a.finishedAt ? "done" : "in_progress" };
+    });
+});
+
+export const createExam = (input: ExamInput) => withLock(async () => {
+  const exam = checkExam(input);
+  await writeDoc(EXAMS, [...(await loadExams()), exam]);
+  return exam;
+});
+
+export const updateExam = (id: string, input: ExamInput) => withLock(async () => {
+  const exams = await loadExams();
+  const prev = exams.find(e => e.id === id);
+  if (!prev) throw new ApiError(404, "試験が見つかりません");
+  const exam = checkExam(input, prev);
+  await writeDoc(EXAMS, exams.map(e => (e.id === id ? exam : e)));
+  return exam;
+});
+
+export const deleteExam = (id: string) => withLock(async () => {
+  const exams = await loadExams();
+  if (!exams.some(e => e.id === id)) throw new ApiError(404, "試験が見つかりません");
+  await writeDoc(EXAMS, exams.filter(e => e.id !== id));
+});
+
+export const listAttempts = (examId: string) => withLock(async () =>
+  (await loadAttempts()).filter(a => a.examId === examId));
+
+/* ----- バックアップ ----- */
+export const snapshotExams = () => withLock(async () => ({ exams: await loadExams(), attempts: await loadAttempts() }));
+
+export const checkExams = (rows: TExam[]) => rows.map(e => checkExam(e, e));
+export const checkAttempts = (rows: unknown[]) => rows.map(checkAttempt);
+
+export const restoreExams = (exams: TExam[], attempts: TExamAttempt[]) => withLock(async () => {
+  await writeDoc(EXAMS, exams);
+  await writeDoc(ATTEMPTS, attempts);
+});
+
+/* ----- 受験 ----- */
+const deadlines = (exam: TExam, a: TExamAttempt) => ({
+  questionDeadline: exam.perQuestionSec ? a.servedAt + exam.perQuestionSec * 1000 : undefined,
+  examDeadline: exam.totalSec ? a.startedAt + exam.totalSec * 1000 : undefined,
+});
+
+function toState(exam: TExam, a: TExamAttempt, cards: TCard[]): TExamState {
+  const finished = Boolean(a.finishedAt);
+  const card = finished ? undefined : cards.find(c => c.id === a.cardIds[a.answers.length]);
+  return {
+    progress: {
+      attemptId: a.id, examId: exam.id, title: exam.title,
+      index: a.answers.length, total: a.cardIds.length,
+      img: card?.img, finished,
+      ...(finished ? {} : deadlines(exam, a)),
+    },
+    report: finished ? a : null,
+  };
+}
+
+function answerFor(exam: TExam, a: TExamAttempt, cards: TCard[], rules: TSettings, name: string, price: string, now: number, timedOut: boolean): TExamAnswer {
+  const cardId = a.cardIds[a.answers.length];
+  const card = cards.find(c => c.id === cardId);
+  const g = !timedOut && card
+    ? gradeAnswer(card, name, price, {
+      // 試験で許容誤差を指定したら価格帯ルールは使わない（カードの個別設定は優先）
+      tolPct: exam.tolPct ?? rules.tolPct, tolRules: exam.tolPct != null ? [] : rules.tolRules,
+      strictName: exam.strictName ?? rules.strictName,
+    })
+    : null;
+  return {
+    ts: now, user: a.user, cardId, examId: exam.id,
+    answeredName: timedOut ? "" : name, answeredPrice: timedOut ? 0 : parsePrice(price) || 0,
+    correctName: card?.name ?? "", correctPrice: Number(card?.price ?? 0),
+    nameOk: false, priceOk: false, correct: false, namePoints: 0, pricePoints: 0, score: 0, priceErrorPct: undefined,
+    ...g,
+    elapsedMs: now - a.servedAt, timedOut,
+  };
+}
+
+// 全体の制限時間切れなら残りを時間切れで埋めて終了
+function expire(exam: TExam, a: TExamAttempt, cards: TCard[], rules: TSettings, now: number) {
+  const { examDeadline } = deadlines(exam, a);
+  if (a.finishedAt || !examDeadline || now <= examDeadline + GRACE_MS) return false;
+  while (a.answers.length < a.cardIds.length) a.answers.push(answerFor(exam, a, cards, rules, "", "", now, true));
+  a.finishedAt = now;
+  return true;
+}
+
+async function load(examId: string) {
+  const exam = (await loadExams()).find(e => e.id === examId);
+  if (!exam) throw new ApiError(404, "試験が見つかりません");
+  return exam;
+}
+
+// 終了した受験の回答を通常の履歴にも残す
+async function archive(a: TExamAttempt | null) {
+  if (!a) return;
+  const saved = await appendResults(a.answers);
+  await recordReviews(saved);
+}
+
+export async function getAttemptState(examId: string, user: TUser) {
+  const [cards, rules] = [await listCards(), await getSettings()];
+  const { state, done } = await withLock(async () => {
+    const exam = await load(examId);
+    const attempts = await loadAttempts();
+    const a = attempts.find(x => x.examId === examId && x.user === user.id);
+    if (!a) return { state: null, done: null };
+    const expired = expire(exam, a, cards, rules, Date.now());
+    if (expired) await writeDoc(ATTEMPTS, attempts);
+    return { state: toState(exam, a, cards), done: expired ? a : null };
+  });
+  await archive(done);
+  return state;
+}
+
+export async function startAttempt(examId: string, user: TUser) {
+  const existing = await getAttemptState(examId, user);
+  if (existing) return existing;
+  const cards = await listCards();
+  return withLock(async () => {
+    const exam = await load(examId);
+    if (!exam.active) throw new ApiError(403, "この試験は受験できません");
+    const attempts = await loadAttempts();
+    if (attempts.some(x => x.examId === examId && x.user === user.id)) throw new ApiError(409, "受験済みです");
+    const pool = exam.cardIds.length
+      ? cards.filter(c => exam.cardIds.includes(c.id))
+      : cards.filter(c => c.active !== false);
+    if (!pool.length) throw new ApiError(400, "出題できるカードがありません");
+    const picked = shuffle(pool).slice(0, exam.questionCount);
+    const now = Date.now();
+    const a: TExamAttempt = { id: uid(), examId, user: user.id, cardIds: picked.map(c => c.id), startedAt: now, servedAt: now, answers: [] };
+    await writeDoc(ATTEMPTS, [...attempts, a]);
+    return toState(exam, a, cards);
+  });
+}
+
+export async function submitAnswer(examId: string, user: TUser, index: number, name: string, price: string) {
+  const [cards, rules] = [await listCards(), await getSettings()];
+  const { state, done } = await withLock(async () => {
+    const exam = await load(examId);
+    const attempts = await loadAttempts();
+    const a = attempts.find(x => x.examId === examId && x.user === user.id);
+    if (!a) throw new ApiError(404, "受験が開始されていません");
+    const now = Date.now();
+    const wasFinished = Boolean(a.finishedAt);
+    if (!expire(exam, a, cards, rules, now)) {
+      if (a.finishedAt) throw new ApiError(409, "この試験は終了しています");
+      if (index !== a.answers.length) throw new ApiError(409, "問題番号が一致しません");
+      const { questionDeadline } = deadlines(exam, a);
+      const timedOut = Boolean(questionDeadline && now > questionDeadline + GRACE_MS);
+      a.answers.push(answerFor(exam, a, cards, rules, name, price, now, timedOut));
+      a.servedAt = now;
+      if (a.answers.length >= a.cardIds.length) a.finishedAt = now;
+    }
+    await writeDoc(ATTEMPTS, attempts);
+    return { state: toState(exam, a, cards), done: !wasFinished && a.finishedAt ? a : null };
+  });
+  await archive(done);
+  return state;
+}
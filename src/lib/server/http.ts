@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+/* ルートハンドラ共通：ステータス付きエラーと JSON 応答 */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export function errorResponse(e: unknown) {
+  if (e instanceof ApiError) return NextResponse.json({ error: e.message }, { status: e.status });
+  console.error(e);
+  return NextResponse.json({ error: "サーバーエラーが発生しました" }, { status: 500 });
+}
+
+export async function readBody<T>(req: Request): Promise<T> {
+  try { return (await req.json()) as T; } catch { throw new ApiError(400, "JSON を解析できません"); }
+}
@@ -0,0 +1,59 @@
+import type { HistoryFilter, TPreset } from "../types";
+import { HISTORY_FILTERS, uid } from "../quiz";
+import { ApiError } from "./http";
+import { defineDoc, listOf, readDoc, withLock, writeDoc } from "./store";
+import { checkCardFilter } from "./settings";
+
+/* ================= 出題プリセット =================
+ * 名前付きの絞り込み。管理者が作り、プレイヤーはクイズ画面で選ぶ（全体の出題ルールに重ねてかかる）
+ */
+export type PresetInput = Partial<Omit<TPreset, "id">>;
+
+function checkPreset(input: PresetInput, prev?: TPreset): TPreset {
+  const merged = { ...prev, ...input };
+  const name = String(merged.name ?? "").trim();
+  if (!name) throw new ApiError(400, "プリセット名を入力してください");
+  if (typeof merged.filter !== "object" || merged.filter === null) throw new ApiError(400, "絞り込みの指定が不正です");
+  const history = (merged.history ?? "all") as HistoryFilter;
+  if (!HISTORY_FILTERS.some(h => h.value === history)) throw new ApiError(400, "回答履歴の指定が不正です");
+  return { id: prev?.id ?? uid(), name, filter: checkCardFilter(merged.filter), history };
+}
+
+const DOC = defineDoc<TPreset[]>({ name: "presets.json", version: 1, fallback: () => [], validate: listOf(row => checkPreset(row as TPreset, row as TPreset)) });
+
+const load = () => readDoc(DOC);
+
+const assertUniqueName = (presets: TPreset[], p: TPreset) => {
+  if (presets.some(x => x.id !== p.id && x.name === p.name)) throw new ApiError(409, "同じ名前のプリセットが既にあります");
+};
+
+export const listPresets = () => withLock(load);
+
+export const createPreset = (input: PresetInput) => withLock(async () => {
+  const presets = await load();
+  const preset = checkPreset(input);
+  assertUniqueName(presets, preset);
+  await writeDoc(DOC, [...presets, preset]);
+  return preset;
+});
+
+export const updatePreset = (id: string, input: PresetInput) => withLock(async () => {
+  const presets = await load();
+  const prev = presets.find(p => p.id === id);
+  if (!prev) throw new ApiError(404, "プリセットが見つかりません");
+  const preset = checkPreset(input, prev);
+  assertUniqueName(presets, preset);
+  await writeDoc(DOC, presets.map(p => (p.id === id ? preset : p)));
+  return preset;
+});
+
+export const deletePreset = (id: string) => withLock(async () => {
+  const presets = await load();
+  if (!presets.some(p => p.id === id)) throw new ApiError(404, "プリセットが見つかりません");
+  await writeDoc(DOC, presets.filter(p => p.id !== id));
+});
+
+/* ----- バックアップ ----- */
+export const checkPresets = (rows: TPreset[]) => rows.map(p => checkPreset(p, p));
+
+export const restorePresets = (presets: TPreset[]) => withLock(() => writeDoc(DOC, presets));
@@ -0,0 +1,145 @@
+import type { TCard, TPriceBand, TQuizAnswer, TResult, TSettings } from "../types";
+import { asksName, asksPrice, parsePrice } from "../quiz";
+import { bandMid, isChoiceBand } from "../choices";
+import { gradeAnswer, gradeChoice } from "../scoring";
+import { ApiError } from "./http";
+import { appendLog, clearLog, defineLog, readLog, withLock } from "./store";
+import { userAliasMap } from "./users";
+import { listCards } from "./cards";
+import { getSettings } from "./settings";
+
+/* ================= 回答履歴（追記専用ログ） ================= */
+
+export type ResultQuery = {
+  user?: string;
+  cardId?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+};
+
+const optNumber = (v: unknown) => (Number.isFinite(v) ? Number(v) : undefined);
+
+const validBand = (b: unknown): TPriceBand | undefined => {
+  const { min, max } = (b ?? {}) as Partial<TPriceBand>;
+  return Number.isFinite(min) && Number.isFinite(max) ? { min: Number(min), max: Number(max) } : undefined;
+};
+
+// 保存する 1 件を検証して TResult に揃える（採点済みの行。プレイヤーの回答は gradeAnswers を通す）
+export function validateResult(row: Partial<TResult>): TResult {
+  if (!row || typeof row.user !== "string" || !row.user.trim()) throw new ApiError(400, "user がありません");
+  if (typeof row.cardId !== "string" || !row.cardId) throw new ApiError(400, "cardId がありません");
+  if (!Number.isFinite(row.answeredPrice) || !Number.isFinite(row.correctPrice)) throw new ApiError(400, "価格が数値ではありません");
+  return {
+    ts: Number.isFinite(row.ts) ? Number(row.ts) : Date.now(),
+    user: row.user.trim(),
+    cardId: row.cardId,
+    answeredName: String(row.answeredName ?? ""),
+    answeredPrice: Number(row.answeredPrice),
+    correct: Boolean(row.correct),
+    nameOk: Boolean(row.nameOk),
+    priceOk: Boolean(row.priceOk),
+    correctName: String(row.correctName ?? ""),
+    correctPrice: Number(row.correctPrice),
+    score: optNumber(row.score),
+    namePoints: optNumber(row.namePoints),
+    pricePoints: optNumber(row.pricePoints),
+    priceErrorPct: optNumber(row.priceErrorPct),
+    nameSimilarity: optNumber(row.nameSimilarity),
+    tolRange: validBand(row.tolRange),
+    examId: typeof row.examId === "string" ? row.examId : undefined,
+    mode: row.mode === "choice" ? "choice" : undefined,
+    asked: row.asked === "name" || row.asked === "price" ? row.asked : undefined,
+    answeredBand: validBand(row.answeredBand),
+  };
+}
+
+// 読み込み時も同じ検証を通す（欠けた任意項目は補い、壊れた行は退避される）
+const LOG = defineLog<TResult>({ name: "results.jsonl", validate: row => validateResult(row as Partial<TResult>) });
+
+export const appendResults = (rows: Partial<TResult>[]) => withLock(async () => {
+  const valid = rows.map(validateResult);
+  await appendLog(LOG, valid);
+  return valid;
+});
+
+// プレイヤーの回答 1 件を、保存されているカードと設定で採点する（クライアントの正誤・点数は受け取らない）
+function gradeOne(user: string, row: Partial<TQuizAnswer>, cards: TCard[], rules: TSettings): TResult {
+  const card = cards.find(c => c.id === row?.cardId);
+  if (!card) throw new ApiError(400, "カードが見つかりません");
+  const asked = row.asked === "name" || row.asked === "price" ? row.asked : "both";
+  const name = asksName(asked) ? String(row.answeredName ?? "") : "";
+  let answer: Pick<TResult, "answeredPrice" | "answeredBand">;
+  let g: ReturnType<typeof gradeAnswer>;
+  if (row.mode === "choice") {
+    const band = asksPrice(asked) ? validBand(row.answeredBand) : undefined;
+    if (asksPrice(asked) && !(band && isChoiceBand(band))) throw new ApiError(400, "価格帯が不正です");
+    if (asksName(asked) && !name) throw new ApiError(400, "名前を選んでください");
+    answer = { answeredPrice: band ? bandMid(band) : 0, answeredBand: band };
+    g = gradeChoice(card, asksName(asked) ? name : null, band ?? null, asked);
+  } else {
+    const price = String(row.answeredPrice ?? "");
+    g = gradeAnswer(card, name, price, rules, asked);
+    if (!g) throw new ApiError(400, "回答が空です");
+    answer = { answeredPrice: asksPrice(asked) ? parsePrice(price) : 0 };
+  }
+  return validateResult({
+    ts: Date.now(), user, cardId: card.id, answeredName: name, ...answer,
+    correctName: card.name, correctPrice: Number(card.price),
+    ...g,
+    mode: row.mode === "choice" ? "choice" : undefined,
+    asked: asked === "both" ? undefined : asked,
+  });
+}
+
+export const gradeAnswers = async (user: string, rows: Partial<TQuizAnswer>[]) => {
+  const [cards, rules] = [await listCards(), await getSettings()];
+  return appendResults(rows.map(row => gradeOne(user, row, cards, rules)));
+};
+
+// 新しい順で返す（旧形式のユーザー名は id に読み替える）
+export const queryResults = async (q: ResultQuery = {}) => {
+  const aliases = await userAliasMap();
+  return withLock(() => query(q, aliases));
+};
+
+async function query(q: ResultQuery, aliases: Map<string, string>) {
+  const all = (await readLog(LOG)).map(r => ({ ...r, user: aliases.get(r.user) ?? r.user }));
+  const hits = all
+    .filter(r => (q.user == null || r.user === q.user)
+      && (q.cardId == null || r.cardId === q.cardId)
+      && (q.from == null || r.ts >= q.from)
+      && (q.to == null || r.ts <= q.to))
+    .reverse();
+  return q.limit ? hits.slice(0, q.limit) : hits;
+}
+
+export const clearResults = () => withLock(() => clearLog(LOG));
+
+// バックアップ用：保存されている順（古い順）のまま出し入れする
+export const snapshotResults = () => withLock(() => readLog(LOG));
+
+export const restoreResults = (rows: TResult[]) => withLock(async () => {
+  await clearLog(LOG);
+  await appendLog(LOG, rows);
+});
+
+// 旧形式（1 ブラウザ分）の取り込み用：置き換えずに足す。日時・ユーザー・カードが同じ回答は重複として除く。
+// 戻り値は足した回答と、取り込み後の全履歴（どちらもユーザーは id に読み替え済み）
+export const mergeResults = async (rows: TResult[]) => {
+  const aliases = await userAliasMap();
+  const withId = (r: TResult) => ({ ...r, user: aliases.get(r.user) ?? r.user });
+  const key = (r: TResult) => `${r.ts}\n${r.user}\n${r.cardId}`;
+  return withLock(async () => {
+    const all = (await readLog(LOG)).map(withId);
+    const seen = new Set(all.map(key));
+    const added: TResult[] = [];
+    for (const r of rows.map(withId)) {
+      if (seen.has(key(r))) continue;
+      seen.add(key(r));
+      added.push(r);
+    }
+    await appendLog(LOG, added);
+    return { added, all: [...all, ...added] };
+  });
+};
@@ -0,0 +1,50 @@
+import type { TResult, TSchedule } from "../types";
+import { applyReviews, type ScheduleMap } from "../srs";
+import { defineDoc, readDoc, withLock, writeDoc, type Reject } from "./store";
+
+/* ================= 間隔反復スケジュール（userId → cardId → TSchedule） ================= */
+export type ScheduleDoc = Record<string, ScheduleMap>;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const SCHEDULE_NUMBERS = ["ease", "interval", "reps", "lapses", "due", "lastTs"] as const;
+
+export function checkSchedules(data: unknown, reject?: Reject): ScheduleDoc {
+  if (!isRecord(data)) throw new Error("復習スケジュールがオブジェクトではありません");
+  const doc: ScheduleDoc = {};
+  for (const [user, map] of Object.entries(data)) {
+    if (!isRecord(map)) { reject?.({ user, map }, "ユーザーのスケジュールが不正です"); continue; }
+    doc[user] = {};
+    for (const [cardId, s] of Object.entries(map)) {
+      if (isRecord(s) && SCHEDULE_NUMBERS.every(k => Number.isFinite(s[k]))) doc[user][cardId] = { ...(s as TSchedule), cardId };
+      else reject?.({ user, cardId, s }, "スケジュールの数値が不正です");
+    }
+  }
+  return doc;
+}
+
+const DOC = defineDoc<ScheduleDoc>({ name: "schedules.json", version: 1, fallback: () => ({}), validate: checkSchedules });
+
+export const getSchedule = (userId: string) => withLock(async () => (await readDoc(DOC))[userId] ?? {});
+
+// 採点結果をユーザーごとのスケジュールに反映
+export const recordReviews = (rs: TResult[]) => withLock(async () => {
+  if (!rs.length) return;
+  const doc = await readDoc(DOC);
+  for (const user of new Set(rs.map(r => r.user))) {
+    doc[user] = applyReviews(doc[user] ?? {}, rs.filter(r => r.user === user));
+  }
+  await writeDoc(DOC, doc);
+});
+
+// 指定したユーザーのスケジュールを回答履歴から作り直す（ほかのユーザーはそのまま）
+export const rebuildSchedules = (users: string[], rs: TResult[]) => withLock(async () => {
+  const doc = await readDoc(DOC);
+  for (const user of users) doc[user] = applyReviews({}, rs.filter(r => r.user === user));
+  await writeDoc(DOC, doc);
+});
+
+export const clearSchedules = () => withLock(() => writeDoc(DOC, {}));
+
+export const snapshotSchedules = () => withLock(() => readDoc(DOC));
+
+export const restoreSchedules = (doc: ScheduleDoc) => withLock(() => writeDoc(DOC, doc));
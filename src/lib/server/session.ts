@@ -0,0 +1,86 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import type { Role, TUser } from "../types";
+import { ApiError } from "./http";
+import { defineDoc, readDoc, withLock, writeDoc } from "./store";
+import { findUser } from "./users";
+
+/* ================= セッション（署名付き Cookie） =================
+ * 中身は { uid, exp } を base64url にして HMAC-SHA256 で署名したもの。
+ * ロールは毎回ユーザーストアから引き直すので、権限変更や削除が即反映される。
+ */
+export const SESSION_COOKIE = "quiz_session";
+const MAX_AGE = 60 * 60 * 24 * 7; // 7 日
+
+let secret: Buffer | null = null;
+
+const SECRET_DOC = defineDoc<{ key?: string }>({
+  name: "secret.json",
+  version: 1,
+  fallback: () => ({}),
+  validate: data => {
+    const key = (data as { key?: unknown })?.key;
+    if (typeof key !== "string" || !/^[0-9a-f]{64}$/.test(key)) throw new Error("署名鍵が不正です");
+    return { key };
+  },
+});
+
+// SESSION_SECRET が無ければ data/ に生成して使い回す
+async function getSecret() {
+  if (secret) return secret;
+  if (process.env.SESSION_SECRET) return (secret = Buffer.from(process.env.SESSION_SECRET));
+  const key = await withLock(async () => {
+    const doc = await readDoc(SECRET_DOC);
+    if (doc.key) return doc.key;
+    const generated = randomBytes(32).toString("hex");
+    await writeDoc(SECRET_DOC, { key: generated });
+    return generated;
+  });
+  return (secret = Buffer.from(key, "hex"));
+}
+
+const sign = async (payload: string) => createHmac("sha256", await getSecret()).update(payload).digest("base64url");
+
+async function encode(uid: string) {
+  const payload = Buffer.from(JSON.stringify({ uid, exp: Date.now() + MAX_AGE * 1000 })).toString("base64url");
+  return `${payload}.${await sign(payload)}`;
+}
+
+async function decode(token: string): Promise<string | null> {
+  const [payload, sig] = token.split(".");
+  if (!payload || !sig) return null;
+  const expected = Buffer.from(await sign(payload));
+  const actual = Buffer.from(sig);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  try {
+    const { uid, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return typeof uid === "string" && Number(exp) > Date.now() ? uid : null;
+  } catch { return null; }
+}
+
+export async function setSession(res: NextResponse, user: TUser) {
+  res.cookies.set(SESSION_COOKIE, await encode(user.id), {
+    httpOnly: true, sameSite: "lax", secure: process.env.NODE_ENV === "production", path: "/", maxAge: MAX_AGE,
+  });
+  return res;
+}
+
+export function clearSession(res: NextResponse) {
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
+
+export async function getSessionUser(): Promise<TUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const uid = token ? await decode(token) : null;
+  return uid ? findUser(uid) : null;
+}
+
+// ロールを満たさなければ 401/403
+export async function requireRole(...roles: Role[]): Promise<TUser> {
+  const user = await getSessionUser();
+  if (!user) throw new ApiError(401, "ログインしてください");
+  if (!roles.includes(user.role)) throw new ApiError(403, "権限がありません");
+  return user;
+}
@@ -0,0 +1,90 @@
+import type { PsaFilter, TCardFilter, TSettings, TToleranceRule } from "../types";
+import { GRADERS, cardFilterFromPsa, emptyCardFilter, isValidGrade, isValidTolerance } from "../quiz";
+import { ApiError } from "./http";
+import { defineDoc, readDoc, withLock, writeDoc } from "./store";
+
+/* ================= 出題・採点ルール ================= */
+export const defaultSettings: TSettings = { tolPct: 10, tolRules: [], strictName: false, autocomplete: true, cardFilter: emptyCardFilter };
+
+export const getSettings = () => withLock(load);
+
+const strings = (v: unknown, label: string) => {
+  if (!Array.isArray(v) || v.some(s => typeof s !== "string")) throw new ApiError(400, `${label}の指定が不正です`);
+  return v as string[];
+};
+
+const optNumber = (v: unknown, ok: (n: number) => boolean, message: string) => {
+  if (v == null) return null;
+  if (typeof v !== "number" || !ok(v)) throw new ApiError(400, message);
+  return v;
+};
+
+// 出題プリセットでも使う。欠けている項目は「絞り込まない」
+export function checkCardFilter(f: Partial<TCardFilter>): TCardFilter {
+  const graders = strings(f.graders ?? [], "鑑定会社");
+  if (graders.some(g => !GRADERS.includes(g as TCardFilter["graders"][number]))) throw new ApiError(400, "鑑定会社の指定が不正です");
+  const minGrade = f.minGrade ?? null, maxGrade = f.maxGrade ?? null;
+  if ([minGrade, maxGrade].some(g => g != null && !isValidGrade(g))) throw new ApiError(400, "グレード範囲は 1〜10（0.5 刻み）で指定してください");
+  if (minGrade != null && maxGrade != null && minGrade > maxGrade) throw new ApiError(400, "グレード範囲の下限が上限より大きいです");
+  const minPrice = optNumber(f.minPrice, n => Number.isFinite(n) && n >= 0, "価格範囲は 0 以上の数値で指定してください");
+  const maxPrice = optNumber(f.maxPrice, n => Number.isFinite(n) && n >= 0, "価格範囲は 0 以上の数値で指定してください");
+  if (minPrice != null && maxPrice != null && minPrice > maxPrice) throw new ApiError(400, "価格範囲の下限が上限より大きいです");
+  return {
+    graders: graders as TCardFilter["graders"], minGrade, maxGrade,
+    sets: strings(f.sets ?? [], "セット"),
+    languages: strings(f.languages ?? [], "言語"),
+    rarities: strings(f.rarities ?? [], "レアリティ"),
+    minPrice, maxPrice,
+    decks: strings(f.decks ?? [], "デッキ"),
+    priceChangedDays: optNumber(f.priceChangedDays, n => Number.isInteger(n) && n >= 1 && n <= 365, "相場変動の期間は 1〜365 日で指定してください"),
+  };
+}
+
+// 価格帯ごとの許容誤差。下限価格の昇順に並べ、同じ下限は 1 つまで
+function checkToleranceRules(v: unknown): TToleranceRule[] {
+  if (!Array.isArray(v)) throw new ApiError(400, "価格帯ごとの許容誤差が不正です");
+  const rules = v.map(r => {
+    const { minPrice, pct = null, minYen = null } = (r ?? {}) as Partial<TToleranceRule>;
+    if (typeof minPrice !== "number" || !Number.isFinite(minPrice) || minPrice < 0) throw new ApiError(400, "価格帯の下限は 0 以上の数値で指定してください");
+    if (!isValidTolerance({ pct, minYen })) throw new ApiError(400, "許容誤差は %（0 超 100 以下）か最低額（0 以上の円）で指定してください");
+    return { minPrice, pct, minYen };
+  }).sort((a, b) => a.minPrice - b.minPrice);
+  if (rules.some((r, i) => i > 0 && r.minPrice === rules[i - 1].minPrice)) throw new ApiError(400, "同じ下限価格の価格帯が重複しています");
+  return rules;
+}
+
+export function checkSettings(next: TSettings): TSettings {
+  const tolPct = Number(next.tolPct);
+  if (!Number.isFinite(tolPct) || tolPct < 1 || tolPct > 30) throw new ApiError(400, "許容誤差は 1〜30% で指定してください");
+  if (typeof next.cardFilter !== "object" || next.cardFilter === null) throw new ApiError(400, "出題の絞り込みが不正です");
+  return {
+    tolPct, tolRules: checkToleranceRules(next.tolRules ?? []), strictName: Boolean(next.strictName),
+    autocomplete: next.autocomplete !== false, // 導入前のバックアップには無いので既定はオン
+    cardFilter: checkCardFilter(next.cardFilter),
+  };
+}
+
+// 欠けている項目は既定値で補う
+// version 2: psaFilter → cardFilter（鑑定会社・グレード・セットなどで絞り込む）
+const DOC = defineDoc<TSettings>({
+  name: "settings.json",
+  version: 2,
+  fallback: () => defaultSettings,
+  validate: data => checkSettings({ ...defaultSettings, ...(data as Partial<TSettings>) }),
+  migrations: {
+    1: data => {
+      const { psaFilter, ...rest } = data as { psaFilter?: PsaFilter };
+      return { ...rest, cardFilter: cardFilterFromPsa(psaFilter) };
+    },
+  },
+});
+
+const load = () => readDoc(DOC);
+
+export const updateSettings = (patch: Partial<TSettings>) => withLock(async () => {
+  const settings = checkSettings({ ...(await load()), ...patch });
+  await writeDoc(DOC, settings);
+  return settings;
+});
+
+export const restoreSettings = (settings: TSettings) => withLock(() => writeDoc(DOC, settings));
@@ -0,0 +1,179 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TQuarantineEntry } from "../types";
+
+/* ================= ファイルストア =================
+ * data/ 配下に JSON ドキュメントを置くだけの簡易ストア。
+ * 書き込みは tmp へ書いてから rename するので途中で落ちても壊れない。
+ *
+ * ドキュメントは { schemaVersion, data } の形で保存し、読むたびに
+ *   1. 古い版なら migrations で順に最新へ変換
+ *   2. validate で実行時チェック（個々の不正な要素は reject で弾ける）
+ * を通す。壊れたファイルや弾いた要素は捨てずに data/quarantine/ へ退避する。
+ */
+export const DATA_DIR = process.env.CARD_QUIZ_DATA_DIR || path.join(process.cwd(), "data");
+export const QUARANTINE_DIR = path.join(DATA_DIR, "quarantine");
+
+const fileOf = (name: string) => path.join(DATA_DIR, name);
+
+// 同一プロセス内の読み書きを直列化（読み込み→変更→保存の間に割り込まれないように）
+let queue: Promise<unknown> = Promise.resolve();
+export function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/* ----- スキーマ ----- */
+export type Reject = (item: unknown, reason: string) => void;
+
+export type DocSchema<T> = {
+  name: string;
+  version: number;
+  fallback: () => T;
+  // 実行時チェック。全体が読めなければ throw、個々の不正な要素は reject して除く
+  validate: (data: unknown, reject: Reject) => T;
+  // version n の data を n+1 に変換する関数。schemaVersion の無い旧ファイルは version 1 として扱う
+  migrations?: Record<number, (data: unknown) => unknown>;
+  // 空扱いにすると危険なもの（ユーザー台帳など）は、壊れていたら元ファイルを残したままエラーにする。
+  // 不正な要素が 1 件でもあれば同じ扱い（除いて書き戻すと、そのアカウントが消えてしまう）
+  failClosed?: boolean;
+};
+
+export const defineDoc = <T>(schema: DocSchema<T>) => schema;
+
+// 配列ドキュメント用：要素ごとに check し、throw した要素だけ除く
+export const listOf = <T>(check: (item: unknown) => T) => (data: unknown, reject: Reject): T[] => {
+  if (!Array.isArray(data)) throw new Error("配列ではありません");
+  return data.flatMap(item => {
+    try { return [check(item)]; } catch (e) { reject(item, (e as Error).message); return []; }
+  });
+};
+
+type Envelope = { schemaVersion: number; data: unknown };
+
+const isEnvelope = (v: unknown): v is Envelope =>
+  typeof v === "object" && v !== null && Number.isInteger((v as Envelope).schemaVersion) && "data" in v;
+
+/* ----- 退避 ----- */
+const stamp = () => new Date().toISOString().replace(/[:.]/g, "-");
+
+async function quarantine(name: string, content: string, reason: string) {
+  await fs.mkdir(QUARANTINE_DIR, { recursive: true });
+  const file = `${name}.${stamp()}.quarantine`;
+  await fs.writeFile(path.join(QUARANTINE_DIR, file), content, "utf8");
+  await fs.writeFile(path.join(QUARANTINE_DIR, `${file}.reason.txt`), reason, "utf8");
+  console.warn(`[store] ${name} を退避しました: ${reason} → quarantine/${file}`);
+}
+
+export async function listQuarantine(): Promise<TQuarantineEntry[]> {
+  let files: string[];
+  try { files = await fs.readdir(QUARANTINE_DIR); } catch { return []; }
+  const entries = files.filter(f => f.endsWith(".quarantine")).map(async file => {
+    const stat = await fs.stat(path.join(QUARANTINE_DIR, file));
+    const reason = await fs.readFile(path.join(QUARANTINE_DIR, `${file}.reason.txt`), "utf8").catch(() => "");
+    return { file, reason, at: stat.mtimeMs };
+  });
+  return (await Promise.all(entries)).sort((a, b) => b.at - a.at);
+}
+
+/* ----- ドキュメント ----- */
+async function readText(name: string) {
+  try {
+    return await fs.readFile(fileOf(name), "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+async function writeText(name: string, text: string) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmp = fileOf(`${name}.${process.pid}.tmp`);
+  await fs.writeFile(tmp, text, "utf8");
+  await fs.rename(tmp, fileOf(name));
+}
+
+// 丸ごと読めないファイルは退避して既定値から始める
+async function recover<T>(schema: DocSchema<T>, text: string, reason: string) {
+  if (schema.failClosed) throw new Error(`${schema.name} が壊れています: ${reason}`);
+  await quarantine(schema.name, text, reason);
+  await fs.rm(fileOf(schema.name), { force: true });
+  return schema.fallback();
+}
+
+export async function readDoc<T>(schema: DocSchema<T>): Promise<T> {
+  const text = await readText(schema.name);
+  if (text == null) return schema.fallback();
+
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (e) {
+    return recover(schema, text, `JSON を解析できません: ${(e as Error).message}`);
+  }
+
+  let version = isEnvelope(raw) ? raw.schemaVersion : 1;
+  let data = isEnvelope(raw) ? raw.data : raw;
+  // 新しい版のアプリが書いたファイルは壊さない（退避も上書きもしない）
+  if (version > schema.version) throw new Error(`${schema.name} の形式が新しすぎます（version ${version}）`);
+
+  const rejected: { item: unknown; reason: string }[] = [];
+  let value: T;
+  try {
+    for (; version < schema.version; version++) {
+      const step = schema.migrations?.[version];
+      if (!step) throw new Error(`version ${version} からの変換がありません`);
+      data = step(data);
+    }
+    value = schema.validate(data, (item, reason) => rejected.push({ item, reason }));
+  } catch (e) {
+    return recover(schema, text, (e as Error).message);
+  }
+
+  if (rejected.length && schema.failClosed) {
+    const reasons = rejected.map(r => r.reason).join(" / ");
+    throw new Error(`${schema.name} に不正な要素が ${rejected.length} 件あります（ファイルは変更していません）: ${reasons}`);
+  }
+  if (rejected.length) {
+    await quarantine(schema.name, JSON.stringify(rejected, null, 2), `不正な要素 ${rejected.length} 件を除外しました`);
+  }
+  // 変換・除外があったら最新の形で書き戻す
+  if (rejected.length || !isEnvelope(raw) || raw.schemaVersion !== schema.version) await writeDoc(schema, value);
+  return value;
+}
+
+export async function writeDoc<T>(schema: DocSchema<T>, data: T) {
+  const doc: Envelope = { schemaVersion: schema.version, data };
+  await writeText(schema.name, JSON.stringify(doc, null, 2));
+}
+
+/* ----- 追記専用ログ（1 行 1 JSON）。回答履歴のように増え続けるデータ用 -----
+ * 行ごとに validate し、読めない行・不正な行は退避してログから除く
+ */
+export type LogSchema<T> = { name: string; validate: (row: unknown) => T };
+
+export const defineLog = <T>(schema: LogSchema<T>) => schema;
+
+export async function appendLog<T>(log: LogSchema<T>, rows: T[]) {
+  if (!rows.length) return;
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.appendFile(fileOf(log.name), rows.map(r => JSON.stringify(r) + "\n").join(""), "utf8");
+}
+
+export async function readLog<T>(log: LogSchema<T>): Promise<T[]> {
+  const text = await readText(log.name);
+  if (text == null) return [];
+  const rows: T[] = [];
+  const bad: string[] = [];
+  for (const line of text.split("\n").filter(Boolean)) {
+    try { rows.push(log.validate(JSON.parse(line))); } catch { bad.push(line); }
+  }
+  if (bad.length) {
+    await quarantine(log.name, bad.join("\n") + "\n", `読めない行 ${bad.length} 行を除外しました`);
+    await writeText(log.name, rows.map(r => JSON.stringify(r) + "\n").join(""));
+  }
+  return rows;
+}
+
+export async function clearLog<T>(log: LogSchema<T>) {
+  await fs.rm(fileOf(log.name), { force: true });
+}
@@ -0,0 +1,165 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Role, TUser, TUserEntry } from "../types";
+import { uid } from "../quiz";
+import { ApiError } from "./http";
+import { defineDoc, listOf, readDoc, withLock, writeDoc } from "./store";
+
+/* ================= ユーザー台帳 =================
+ * 削除はせず active=false で無効化する（履歴の user id を生かしておくため）
+ */
+const ROLES: Role[] = ["admin", "player"];
+
+export type StoredUser = TUser & { passwordHash: string };
+
+const scryptAsync = promisify(scrypt) as (pw: string, salt: Buffer, len: number) => Promise<Buffer>;
+
+// 形式: scrypt$<salt hex>$<hash hex>
+async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [algo, saltHex, hashHex] = stored.split("$");
+  if (algo !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const toPublic = ({ id, name, displayName, department, role, active }: StoredUser): TUser =>
+  ({ id, name, displayName, department, role, active });
+
+
+export type UserInput = Partial<Pick<TUser, "name" | "displayName" | "department" | "role" | "active">> & { password?: string };
+
+function checkPassword(password: unknown) {
+  if (String(password ?? "").length < 6) throw new ApiError(400, "パスワードは 6 文字以上にしてください");
+  return String(password);
+}
+
+function checkRole(role: unknown) {
+  if (!ROLES.includes(role as Role)) throw new ApiError(400, "role が不正です");
+  return role as Role;
+}
+
+// 旧形式（id, name, role のみ）も読めるように補完する
+function checkStoredUser(row: unknown): StoredUser {
+  const u = (row ?? {}) as Partial<StoredUser>;
+  if (!u.id || !u.name || typeof u.passwordHash !== "string") throw new ApiError(400, `ユーザーが不正です: ${u.name || u.id || "(ID なし)"}`);
+  return {
+    id: String(u.id),
+    name: String(u.name),
+    displayName: String(u.displayName || u.name),
+    department: String(u.department ?? ""),
+    role: checkRole(u.role),
+    active: u.active !== false,
+    passwordHash: u.passwordHash,
+  };
+}
+
+// 台帳が空だと初期設定（誰でも管理者を作れる）に戻ってしまうので、壊れていたら止める
+const DOC = defineDoc<StoredUser[]>({
+  name: "users.json",
+  version: 1,
+  fallback: () => [],
+  validate: listOf(checkStoredUser),
+  failClosed: true,
+});
+
+const load = () => readDoc(DOC);
+
+async function newUser(input: UserInput, role: Role): Promise<StoredUser> {
+  const name = String(input.name ?? "").trim();
+  if (!name) throw new ApiError(400, "ログイン ID を入力してください");
+  return {
+    id: uid(),
+    name,
+    displayName: String(input.displayName ?? "").trim() || name,
+    department: String(input.department ?? "").trim(),
+    role,
+    active: true,
+    passwordHash: await hashPassword(checkPassword(input.password)),
+  };
+}
+
+const activeAdmins = (users: StoredUser[]) => users.filter(u => u.role === "admin" && u.active).length;
+
+export const listUsers = () => withLock(async () => (await load()).map(toPublic));
+
+// ログイン画面のユーザー選択用
+export const listDirectory = () => withLock(async () =>
+  (await load()).filter(u => u.active).map(({ id, displayName, department }): TUserEntry => ({ id, displayName, department })));
+
+export const hasUsers = () => withLock(async () => (await load()).length > 0);
+
+// 無効化されたユーザーは見つからない扱い（セッションも失効する）
+export const findUser = (id: string) => withLock(async () => {
+  const u = (await load()).find(x => x.id === id && x.active);
+  return u ? toPublic(u) : null;
+});
+
+export const createUser = (input: UserInput) => withLock(async () => {
+  const users = await load();
+  const user = await newUser(input, checkRole(input.role));
+  if (users.some(u => u.name === user.name)) throw new ApiError(409, "同じログイン ID のユーザーが既にいます");
+  await writeDoc(DOC, [...users, user]);
+  return toPublic(user);
+});
+
+// 初回のみ：アカウントが 1 件もなければ最初の管理者を作れる
+export const setupFirstAdmin = (input: UserInput) => withLock(async () => {
+  const users = await load();
+  if (users.length) throw new ApiError(409, "初期設定は完了しています");
+  const user = await newUser(input, "admin");
+  await writeDoc(DOC, [user]);
+  return toPublic(user);
+});
+
+export const updateUser = (id: string, patch: UserInput) => withLock(async () => {
+  const users = await load();
+  const prev = users.find(u => u.id === id);
+  if (!prev) throw new ApiError(404, "ユーザーが見つかりません");
+  const next: StoredUser = {
+    ...prev,
+    displayName: patch.displayName != null ? String(patch.displayName).trim() || prev.name : prev.displayName,
+    department: patch.department != null ? String(patch.department).trim() : prev.department,
+    role: patch.role != null ? checkRole(patch.role) : prev.role,
+    active: patch.active != null ? Boolean(patch.active) : prev.active,
+    passwordHash: patch.password != null ? await hashPassword(checkPassword(patch.password)) : prev.passwordHash,
+  };
+  const updated = users.map(u => (u.id === id ? next : u));
+  if (!activeAdmins(updated)) throw new ApiError(400, "有効な管理者が 1 人もいなくなります");
+  await writeDoc(DOC, updated);
+  return toPublic(next);
+});
+
+/* ----- バックアップ（パスワードはハッシュのまま出し入れする） ----- */
+export const snapshotUsers = () => withLock(load);
+
+export function checkStoredUsers(rows: unknown[]): StoredUser[] {
+  const users = rows.map(checkStoredUser);
+  if (!activeAdmins(users)) throw new ApiError(400, "有効な管理者が 1 人もいなくなります");
+  return users;
+}
+
+export const restoreUsers = (users: StoredUser[]) => withLock(() => writeDoc(DOC, users));
+
+export const authenticate = (id: string, password: string) => withLock(async () => {
+  const u = (await load()).find(x => x.id === id && x.active);
+  if (!u || !(await verifyPassword(String(password ?? ""), u.passwordHash))) {
+    throw new ApiError(401, "ユーザーまたはパスワードが違います");
+  }
+  return toPublic(u);
+});
+
+// 旧履歴（自由入力のユーザー名）を id に寄せるための対応表
+export const userAliasMap = () => withLock(async () => {
+  const users = await load();
+  const map = new Map<string, string>();
+  for (const u of users) map.set(u.displayName, u.id).set(u.name, u.id);
+  for (const u of users) map.set(u.id, u.id);
+  return map;
+});
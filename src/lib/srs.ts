@@ -0,0 +1,56 @@
+import type { TCard, TResult, TSchedule } from "./types";
+
+/* ================= 間隔反復（SM-2） =================
+ * 採点結果を 0〜5 の品質に直し、ユーザー×カードごとに
+ * ease / interval / due を更新する。サーバーとクライアントで同じ計算を使う。
+ */
+const DAY = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+// 両方正解=5、片方だけ=2（やり直し扱いだが ease の下げ幅は小さめ）、両方×=0
+export const qualityOf = (r: Pick<TResult, "correct" | "nameOk" | "priceOk">) =>
+  r.correct ? 5 : r.nameOk || r.priceOk ? 2 : 0;
+
+export function review(prev: TSchedule | undefined, r: TResult): TSchedule {
+  const q = qualityOf(r);
+  const s = prev ?? { cardId: r.cardId, ease: 2.5, interval: 0, reps: 0, lapses: 0, due: r.ts, lastTs: r.ts };
+  const ease = Math.max(MIN_EASE, s.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+  if (q < 3) {
+    // 失敗：その日のうちにもう一度（10 分後）出す
+    return { ...s, ease, interval: 0, reps: 0, lapses: s.lapses + (prev ? 1 : 0), due: r.ts + 10 * 60 * 1000, lastTs: r.ts };
+  }
+  const reps = s.reps + 1;
+  const interval = reps === 1 ? 1 : reps === 2 ? 6 : Math.round(s.interval * ease);
+  return { ...s, ease, interval, reps, due: r.ts + interval * DAY, lastTs: r.ts };
+}
+
+export type ScheduleMap = Record<string, TSchedule>;
+
+export const applyReviews = (map: ScheduleMap, rs: TResult[]): ScheduleMap =>
+  [...rs].sort((a, b) => a.ts - b.ts).reduce((m, r) => ({ ...m, [r.cardId]: review(m[r.cardId], r) }), map);
+
+const endOfToday = (now: number) => { const d = new Date(now); d.setHours(23, 59, 59, 999); return d.getTime(); };
+
+// 今日の内訳：未学習 / 学習中（reps<2 で今日期限） / 復習期限（reps>=2 で今日期限）
+export function queueCounts(cards: TCard[], map: ScheduleMap, now = Date.now()) {
+  const eod = endOfToday(now);
+  let fresh = 0, learning = 0, due = 0;
+  for (const c of cards) {
+    const s = map[c.id];
+    if (!s) fresh++;
+    else if (s.due <= eod && s.reps < 2) learning++;
+    else if (s.due <= eod) due++;
+  }
+  return { fresh, learning, due };
+}
+
+// 出題順：期限切れ（古い順）→ 未学習 → 期限前で一番近いもの。直前と同じカードは避ける
+export function pickNext(cards: TCard[], map: ScheduleMap, lastId?: string, now = Date.now()): TCard | null {
+  const pool = cards.length > 1 ? cards.filter(c => c.id !== lastId) : cards;
+  if (!pool.length) return null;
+  const overdue = pool.filter(c => map[c.id] && map[c.id].due <= now).sort((a, b) => map[a.id].due - map[b.id].due);
+  if (overdue.length) return overdue[0];
+  const fresh = pool.filter(c => !map[c.id]);
+  if (fresh.length) return fresh[Math.floor(Math.random() * fresh.length)];
+  return [...pool].sort((a, b) => map[a.id].due - map[b.id].due)[0];
+}
@@ -0,0 +1,205 @@
+/* ========= 型（UIのCardと衝突しないよう T 接頭辞） ========= */
+/* 鑑定会社。RAW は未鑑定 */
+export type Grader = "PSA" | "BGS" | "CGC" | "RAW";
+
+export type TCard = {
+  id: string;
+  img: string;
+  name: string;
+  set?: string;            // 収録セット
+  number?: string;         // カード番号（"025/165" など）
+  language?: string;
+  rarity?: string;
+  grader: Grader;
+  grade: number | null;    // 1〜10（0.5 刻み）。RAW は null
+  price: number;           // 今の相場（ふつうは prices の最後。手動で直したときはその値）
+  active?: boolean;
+  aliases?: string[];
+  decks?: string[];        // 所属デッキ（空なら未分類）
+  tolerance?: TTolerance;  // このカードだけの許容誤差（価格帯ルールより優先）
+  prices?: TPricePoint[];  // 日付昇順
+};
+
+/* 相場の履歴 1 件。date は YYYY-MM-DD */
+export type TPricePoint = {
+  date: string;
+  price: number;
+  source: string;
+  grader: Grader;
+  grade: number | null;
+};
+
+/* 出題形式。input = 自由入力 / choice = 選択肢から選ぶ */
+export type QuizMode = "input" | "choice";
+
+/* 何を答えさせるか。price = 名前を見せて価格だけ / name = 名前だけ */
+export type QuizAsk = "both" | "name" | "price";
+
+/* 価格の許容誤差。±pct% と ±minYen 円の広い方（片方だけでもよい） */
+export type TTolerance = { pct: number | null; minYen: number | null };
+
+/* 価格帯ごとの許容誤差（minPrice 円以上、次の帯の minPrice 未満の価格に使う） */
+export type TToleranceRule = TTolerance & { minPrice: number };
+
+/* 選択式の価格帯（min 以上 max 未満） */
+export type TPriceBand = { min: number; max: number };
+
+export type TResult = {
+  ts: number;
+  user: string; // TUser.id
+  cardId: string;
+  answeredName: string;
+  answeredPrice: number;
+  correct: boolean;
+  nameOk: boolean;
+  priceOk: boolean;
+  correctName: string;
+  correctPrice: number;
+  // 採点エンジン導入前の履歴には無い
+  score?: number;
+  namePoints?: number;
+  pricePoints?: number;
+  priceErrorPct?: number;
+  nameSimilarity?: number; // 名前の似かた 0〜1（自由入力で名前を聞いたときだけ）
+  tolRange?: { min: number; max: number }; // 正解にした価格の範囲（自由入力で価格を聞いたときだけ）
+  examId?: string; // 試験での回答
+  mode?: QuizMode;  // 未記録（導入前・試験）は input
+  asked?: QuizAsk;  // 未記録は both。聞いていない側の nameOk / priceOk は false で、集計からは除く
+  answeredBand?: TPriceBand; // 選択式で選んだ価格帯（answeredPrice はその中央値）
+};
+
+// クイズでプレイヤーが送る回答。採点はサーバーが保存済みのカードと設定で行う
+export type TQuizAnswer = {
+  cardId: string;
+  answeredName: string;
+  answeredPrice: string;      // 自由入力：入力したままの文字列
+  answeredBand?: TPriceBand;  // 選択式：選んだ価格帯
+  mode?: QuizMode;
+  asked?: QuizAsk;
+};
+
+/* ================= 比較クイズ =================
+ * 複数のカードを並べて相場の高低を答える。1 枚の名前・価格を答える TResult とは別の履歴
+ */
+export type CompareKind = "pick" | "rank"; // pick = 一番高いカードを選ぶ / rank = 高い順に並べる
+
+export type TCompareResult = {
+  ts: number;
+  user: string;       // TUser.id
+  kind: CompareKind;
+  cardIds: string[];  // 出題した並び
+  prices: number[];   // 出題時の相場（cardIds と同じ並び）
+  answer: string[];   // pick は選んだ 1 枚、rank は高い順に並べた cardIds
+  correct: boolean;
+};
+
+/* ================= 試験 ================= */
+export type TExam = {
+  id: string;
+  title: string;
+  cardIds: string[];        // 空なら有効な全カードから出題
+  questionCount: number;
+  perQuestionSec?: number;  // 1 問あたりの制限時間
+  totalSec?: number;        // 全体の制限時間
+  tolPct?: number;          // 未指定なら全体設定
+  strictName?: boolean;
+  active: boolean;
+  createdAt: number;
+};
+
+export type TExamAnswer = TResult & { elapsedMs: number; timedOut: boolean };
+
+export type TExamAttempt = {
+  id: string;
+  examId: string;
+  user: string;             // TUser.id
+  cardIds: string[];        // 出題順
+  startedAt: number;
+  servedAt: number;         // 現在の問題を出した時刻
+  finishedAt?: number;
+  answers: TExamAnswer[];
+};
+
+/* 受験中にクライアントへ渡す情報（答えは含めない） */
+export type TExamProgress = {
+  attemptId: string;
+  examId: string;
+  title: string;
+  index: number;
+  total: number;
+  img?: string;
+  questionDeadline?: number;
+  examDeadline?: number;
+  finished: boolean;
+};
+
+export type TExamState = { progress: TExamProgress; report: TExamAttempt | null };
+
+export type TExamListItem = TExam & { status: "none" | "in_progress" | "done" };
+
+/* 間隔反復のスケジュール（ユーザー×カード）。interval は日数、due は epoch ミリ秒 */
+export type TSchedule = {
+  cardId: string;
+  ease: number;
+  interval: number;
+  reps: number;
+  lapses: number;
+  due: number;
+  lastTs: number;
+};
+
+/* 出題対象の絞り込み。空の項目は絞り込まない。グレード範囲を指定すると未鑑定は対象外 */
+export type TCardFilter = {
+  graders: Grader[];
+  minGrade: number | null;
+  maxGrade: number | null;
+  sets: string[];
+  languages: string[];
+  rarities: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  decks: string[];
+  priceChangedDays: number | null; // 直近 N 日以内に相場が動いたカードだけ
+};
+
+/* 自分の回答履歴での絞り込み（wrong = 前回まちがえた / unseen = まだ答えたことがない） */
+export type HistoryFilter = "all" | "wrong" | "unseen";
+
+/* 出題プリセット（管理者が作り、プレイヤーがクイズ画面で選ぶ） */
+export type TPreset = {
+  id: string;
+  name: string;
+  filter: TCardFilter;
+  history: HistoryFilter;
+};
+
+// 旧設定（settings version 1）の PSA フィルタ
+export type PsaFilter = "all" | "10" | "9以下";
+
+export type Role = "admin" | "player";
+
+/* ユーザー台帳（パスワードハッシュはサーバー側にのみ保持）
+ * name はログイン ID、履歴（TResult.user）には変わらない id を保存する */
+export type TUser = {
+  id: string;
+  name: string;
+  displayName: string;
+  department: string;
+  role: Role;
+  active: boolean;
+};
+
+/* ログイン画面のユーザー選択用（未ログインでも取得できる公開情報） */
+export type TUserEntry = Pick<TUser, "id" | "displayName" | "department">;
+
+/* 管理者が決める出題・採点ルール（全員共通） */
+export type TSettings = {
+  tolPct: number;                // 価格帯ルールに当てはまらない価格の許容誤差
+  tolRules: TToleranceRule[];    // minPrice の昇順
+  strictName: boolean;
+  autocomplete: boolean; // クイズのカード名に入力候補を出す（試験では常に出さない）
+  cardFilter: TCardFilter;
+};
+
+/* 読み込み時に壊れていて data/quarantine/ へ退避したデータ */
+export type TQuarantineEntry = { file: string; reason: string; at: number };